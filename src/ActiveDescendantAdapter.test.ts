@@ -0,0 +1,122 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ActiveDescendantAdapter } from "./ActiveDescendantAdapter";
+import { FocusManager } from "./FocusManager";
+import { ListFocusManager } from "./ListFocusManager";
+
+describe("ActiveDescendantAdapter", () => {
+  let fm: FocusManager<{
+    listbox: ListFocusManager;
+    other: ListFocusManager;
+  }>;
+  let adapter: ActiveDescendantAdapter<
+    { listbox: ListFocusManager; other: ListFocusManager },
+    "listbox"
+  >;
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    fm = new FocusManager({
+      areas: {
+        listbox: new ListFocusManager({
+          getKeys: () => ["a", "b", "c"],
+          getInitialKeyOnAreaFocus: () => "a",
+        }),
+        other: new ListFocusManager({
+          getKeys: () => ["x"],
+          getInitialKeyOnAreaFocus: () => "x",
+        }),
+      },
+    });
+
+    container = document.createElement("div");
+    container.tabIndex = 0;
+
+    for (const key of ["a", "b", "c"]) {
+      const option = document.createElement("div");
+      option.id = `option-${key}`;
+      container.append(option);
+    }
+
+    document.body.append(container);
+
+    adapter = new ActiveDescendantAdapter({
+      focusManager: fm,
+      area: "listbox",
+      container,
+      getItemId: (key) => `option-${key}`,
+      ariaSelected: true,
+    });
+  });
+
+  afterEach(() => {
+    adapter.dispose();
+    document.body.innerHTML = "";
+  });
+
+  const option = (key: string) => document.getElementById(`option-${key}`)!;
+
+  it("writes aria-activedescendant and item attributes for the focused key", () => {
+    fm.focusArea("listbox");
+
+    expect(container.getAttribute("aria-activedescendant")).toBe("option-a");
+    expect(option("a").hasAttribute("data-active")).toBe(true);
+    expect(option("a").getAttribute("aria-selected")).toBe("true");
+
+    fm.focusOnArrowDown();
+
+    expect(container.getAttribute("aria-activedescendant")).toBe("option-b");
+    expect(option("a").hasAttribute("data-active")).toBe(false);
+    expect(option("a").getAttribute("aria-selected")).toBe("false");
+    expect(option("b").hasAttribute("data-active")).toBe(true);
+    expect(option("b").getAttribute("aria-selected")).toBe("true");
+  });
+
+  it("clears the attributes when the area loses the active entry", () => {
+    fm.focusArea("listbox");
+    fm.focusArea("other");
+
+    expect(container.hasAttribute("aria-activedescendant")).toBe(false);
+    expect(option("a").hasAttribute("data-active")).toBe(false);
+
+    fm.goBack();
+    expect(container.getAttribute("aria-activedescendant")).toBe("option-a");
+
+    fm.clear();
+    expect(container.hasAttribute("aria-activedescendant")).toBe(false);
+  });
+
+  it("focuses the area when the container receives DOM focus", () => {
+    container.focus();
+
+    expect(fm.entry?.area).toBe("listbox");
+    expect(fm.entry?.source).toBe("keyboard");
+    expect(container.getAttribute("aria-activedescendant")).toBe("option-a");
+  });
+
+  it("reports keyboard focus after a pointer press on the focused container", () => {
+    container.focus();
+    fm.focusArea("other");
+
+    container.dispatchEvent(new Event("pointerdown"));
+    container.dispatchEvent(new Event("pointerup"));
+
+    container.blur();
+    container.focus();
+
+    expect(fm.entry?.area).toBe("listbox");
+    expect(fm.entry?.source).toBe("keyboard");
+  });
+
+  it("removes the attributes it wrote on dispose", () => {
+    fm.focusArea("listbox");
+    adapter.dispose();
+
+    expect(container.hasAttribute("aria-activedescendant")).toBe(false);
+    expect(option("a").hasAttribute("data-active")).toBe(false);
+    expect(option("a").hasAttribute("aria-selected")).toBe(false);
+
+    fm.focusOnArrowDown();
+    expect(option("b").hasAttribute("data-active")).toBe(false);
+  });
+});
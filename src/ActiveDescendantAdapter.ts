@@ -0,0 +1,166 @@
+import type {
+  ActiveDescendantAdapterProps,
+  AreaFocusManager,
+  FocusSource,
+  KeyFromAreaFocusManager,
+} from "./types";
+
+/**
+ * ActiveDescendantAdapter exposes the focused key of one area through
+ * `aria-activedescendant` on a container element ("virtual focus").
+ *
+ * DOM focus stays on the container (e.g. a combobox input or a virtualized
+ * listbox), while the active item is announced and styled through attributes.
+ * It is the companion of RovingTabIndexAdapter for widgets whose items do not
+ * receive DOM focus themselves.
+ *
+ * Responsibilities:
+ * - Writes `aria-activedescendant` on the container from `getItemId(key)`.
+ * - Sets the active attribute (and optionally `aria-selected`) on the active item.
+ * - Clears both when the area is no longer the active FocusManager entry.
+ * - Forwards container `focus` events into `FocusManager.focusArea`.
+ *
+ * Items are looked up by id when the state changes; virtualized lists that render
+ * the active item later should call `sync()` after rendering.
+ *
+ * @template T A record mapping area identifiers to their corresponding area focus manager instances.
+ * @template K The identifier of the area bound to the container.
+ */
+export class ActiveDescendantAdapter<
+  T extends Record<string, AreaFocusManager>,
+  K extends keyof T
+> {
+  /**
+   * Creates a new ActiveDescendantAdapter, subscribes it to the FocusManager
+   * and applies the current state to the container.
+   *
+   * @param props Configuration options for the adapter:
+   * - `focusManager`: The FocusManager whose state is mirrored into the DOM.
+   * - `area`: The area bound to the container.
+   * - `container`: The element that keeps DOM focus.
+   * - `getItemId`: Function returning the DOM id of the element for a key.
+   * - `ariaSelected`: Whether the active item also gets `aria-selected` (default: false).
+   * - `activeAttribute`: Attribute set on the active item (default: "data-active").
+   */
+  constructor(props: ActiveDescendantAdapterProps<T, K>) {
+    this._focusManager = props.focusManager;
+    this._area = props.area;
+    this._container = props.container;
+    this._getItemId = props.getItemId;
+    this._ariaSelected = !!props.ariaSelected;
+    this._activeAttribute = props.activeAttribute ?? "data-active";
+
+    this._container.addEventListener("pointerdown", this.onPointerDown);
+    this._container.addEventListener("pointerup", this.onPointerUp);
+    this._container.addEventListener("pointercancel", this.onPointerUp);
+    this._container.addEventListener("focus", this.onFocus);
+
+    this._unsubscribe = this._focusManager.subscribe(() => {
+      this.sync();
+    });
+
+    this.sync();
+  }
+
+  protected _focusManager;
+  protected _area;
+  protected _container;
+  protected _getItemId;
+  protected _ariaSelected;
+  protected _activeAttribute;
+  protected _unsubscribe: () => void;
+
+  protected _activeElement: HTMLElement | null = null;
+  protected _pointerDown = false;
+
+  get container() {
+    return this._container;
+  }
+
+  /**
+   * Re-applies `aria-activedescendant` and the item attributes
+   * from the current FocusManager state.
+   */
+  sync() {
+    const entry = this._focusManager.entry;
+    const key =
+      entry?.area === this._area
+        ? this._focusManager.areas[this._area].key
+        : null;
+
+    const id =
+      key != null
+        ? this._getItemId(key as KeyFromAreaFocusManager<T[K]>)
+        : null;
+    const element =
+      id != null ? this._container.ownerDocument.getElementById(id) : null;
+
+    if (id != null) {
+      this._container.setAttribute("aria-activedescendant", id);
+    }
+    //
+    else {
+      this._container.removeAttribute("aria-activedescendant");
+    }
+
+    if (element === this._activeElement) return;
+
+    if (this._activeElement) {
+      this._activeElement.removeAttribute(this._activeAttribute);
+
+      if (this._ariaSelected) {
+        this._activeElement.setAttribute("aria-selected", "false");
+      }
+    }
+
+    if (element) {
+      element.setAttribute(this._activeAttribute, "");
+
+      if (this._ariaSelected) {
+        element.setAttribute("aria-selected", "true");
+      }
+    }
+
+    this._activeElement = element;
+  }
+
+  /**
+   * Unsubscribes from the FocusManager, removes the container event listeners,
+   * and clears all attributes written by the adapter.
+   */
+  dispose() {
+    this._unsubscribe();
+
+    this._container.removeEventListener("pointerdown", this.onPointerDown);
+    this._container.removeEventListener("pointerup", this.onPointerUp);
+    this._container.removeEventListener("pointercancel", this.onPointerUp);
+    this._container.removeEventListener("focus", this.onFocus);
+
+    this._container.removeAttribute("aria-activedescendant");
+    this._activeElement?.removeAttribute(this._activeAttribute);
+
+    if (this._ariaSelected) {
+      this._activeElement?.removeAttribute("aria-selected");
+    }
+
+    this._activeElement = null;
+  }
+
+  protected onPointerDown = () => {
+    this._pointerDown = true;
+  };
+
+  // a pointerdown on the focused container is not followed by a focus event
+  protected onPointerUp = () => {
+    this._pointerDown = false;
+  };
+
+  protected onFocus = () => {
+    const source: FocusSource = this._pointerDown ? "pointer" : "keyboard";
+    this._pointerDown = false;
+
+    if (this._focusManager.entry?.area === this._area) return;
+
+    this._focusManager.focusArea(this._area, source);
+  };
+}
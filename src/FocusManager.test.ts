@@ -1,6 +1,7 @@
-import { beforeEach, describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { FocusManager } from "./FocusManager";
 import { ListFocusManager } from "./ListFocusManager";
+import type { FocusKey, ListFocusManagerProps } from "./types";
 
 describe("FocusManager.focusArea", () => {
   let fm: FocusManager<{
@@ -241,6 +242,8 @@ describe("FocusManager.go", () => {
   });
 
   it("does not change index when stack has only one entry", () => {
+    fm.dispose();
+
     const singleFm = new FocusManager({
       areas: { area1 },
       maxHistory: 10,
@@ -612,6 +615,94 @@ describe("FocusManager arrow navigation without wrapAround", () => {
   });
 });
 
+describe("FocusManager arrow navigation with direction and writing mode", () => {
+  function createList(props: Partial<ListFocusManagerProps<string>>) {
+    const list = new ListFocusManager<string>({
+      getKeys: () => ["a", "b", "c"],
+      getInitialKeyOnAreaFocus: () => "b",
+      wrapAround: false,
+      ...props,
+    });
+
+    const fm = new FocusManager({
+      areas: { list },
+      maxHistory: 10,
+    });
+
+    fm.focusArea("list");
+
+    return { fm, list };
+  }
+
+  it("flips Left/Right in a horizontal rtl list", () => {
+    const { fm, list } = createList({
+      getOrientation: () => "horizontal",
+      getDirection: () => "rtl",
+    });
+
+    expect(fm.focusOnArrowLeft()).toBe(true);
+    expect(list.key).toBe("c");
+
+    fm.focusOnArrowRight();
+    fm.focusOnArrowRight();
+    expect(list.key).toBe("a");
+  });
+
+  it("does not flip Up/Down in a vertical rtl list", () => {
+    const { fm, list } = createList({
+      getOrientation: () => "vertical",
+      getDirection: () => "rtl",
+    });
+
+    fm.focusOnArrowDown();
+    expect(list.key).toBe("c");
+    expect(fm.focusOnArrowLeft()).toBe(false);
+  });
+
+  it("maps the inline axis to Up/Down in a vertical writing mode", () => {
+    const { fm, list } = createList({
+      getOrientation: () => "inline",
+      getWritingMode: () => "vertical-rl",
+    });
+
+    expect(list.orientation).toBe("vertical");
+    expect(fm.focusOnArrowRight()).toBe(false);
+
+    fm.focusOnArrowDown();
+    expect(list.key).toBe("c");
+  });
+
+  it("maps the block axis to Left/Right in a vertical writing mode", () => {
+    const rl = createList({
+      getOrientation: () => "block",
+      getWritingMode: () => "vertical-rl",
+    });
+
+    expect(rl.list.orientation).toBe("horizontal");
+    rl.fm.focusOnArrowLeft();
+    expect(rl.list.key).toBe("c");
+
+    const lr = createList({
+      getOrientation: () => "block",
+      getWritingMode: () => "vertical-lr",
+    });
+
+    lr.fm.focusOnArrowLeft();
+    expect(lr.list.key).toBe("a");
+  });
+
+  it("resolves logical axes in horizontal-tb", () => {
+    const { fm, list } = createList({
+      getOrientation: () => "inline",
+      getDirection: () => "rtl",
+    });
+
+    expect(list.orientation).toBe("horizontal");
+    fm.focusOnArrowRight();
+    expect(list.key).toBe("a");
+  });
+});
+
 describe("FocusManager.focusOnPageUp", () => {
   let fm: FocusManager<{
     vertical: ListFocusManager<string>;
@@ -804,6 +895,56 @@ describe("FocusManager.focusOnPageDown", () => {
     expect(shortVertical.key).toBe("c");
     expect(fm2.entry?.source).toBe("keyboard");
   });
+
+  it("pages through horizontal lists with horizontalPaging", () => {
+    const strip = new ListFocusManager<string>({
+      getKeys: () => ["a", "b", "c", "d", "e", "f"],
+      getOrientation: () => "horizontal",
+      getInitialKeyOnAreaFocus: () => "a",
+      horizontalPaging: true,
+      // simulate viewport showing b–d
+      getFirstVisibleIndex: () => 1,
+      getLastVisibleIndex: () => 3,
+    });
+
+    const fm2 = new FocusManager({ areas: { strip } });
+    fm2.focusArea("strip");
+
+    expect(fm2.focusOnPageDown()).toBe(true);
+    expect(strip.key).toBe("d");
+
+    fm2.focusOnPageDown();
+    expect(strip.key).toBe("f");
+
+    fm2.focusOnPageUp();
+    expect(strip.key).toBe("b");
+  });
+
+  it("flips the paging delta in right-to-left horizontal lists", () => {
+    const strip = new ListFocusManager<string>({
+      getKeys: () => ["a", "b", "c", "d", "e"],
+      getOrientation: () => "horizontal",
+      getDirection: () => "rtl",
+      getInitialKeyOnAreaFocus: () => "b",
+      horizontalPaging: true,
+      getFirstVisibleIndex: () => 1,
+      getLastVisibleIndex: () => 3,
+    });
+
+    const fm2 = new FocusManager({ areas: { strip } });
+    fm2.focusArea("strip");
+
+    // PageUp follows ArrowLeft, toward the end of the list
+    fm2.focusOnPageUp();
+    expect(strip.key).toBe("d");
+
+    fm2.focusOnArrowLeft();
+    expect(strip.key).toBe("e");
+
+    // PageDown follows ArrowRight, toward the start of the list
+    fm2.focusOnPageDown();
+    expect(strip.key).toBe("b");
+  });
 });
 
 describe("FocusManager.focusOnHome", () => {
@@ -1023,3 +1164,1613 @@ describe("FocusManager.clear", () => {
     expect(fm.entry).toBeNull();
   });
 });
+
+describe("FocusManager.focusOnCharacter", () => {
+  const labels: Record<string, string> = {
+    apple: "Apple",
+    apricot: "apricot",
+    banana: "Banana",
+    blueberry: "Blueberry",
+    cherry: "Cherry",
+    eclair: "Éclair",
+  };
+
+  let fm: FocusManager<{ list: ListFocusManager<string> }>;
+  let list: ListFocusManager<string>;
+
+  function createList(wrapAround: boolean) {
+    list = new ListFocusManager<string>({
+      getKeys: () => Object.keys(labels),
+      getInitialKeyOnAreaFocus: () => "apple",
+      getLabel: (key) => labels[key],
+      typeAheadTimeout: 500,
+      wrapAround,
+    });
+
+    fm = new FocusManager({
+      areas: { list },
+      maxHistory: 10,
+    });
+
+    fm.focusArea("list");
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    createList(true);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("starts matching after the focused key", () => {
+    fm.focusOnCharacter("a");
+
+    expect(list.key).toBe("apricot");
+    expect(fm.entry?.source).toBe("keyboard");
+  });
+
+  it("matches a multi-character prefix typed within the timeout", () => {
+    fm.focusOnCharacter("b");
+    fm.focusOnCharacter("l");
+
+    expect(list.key).toBe("blueberry");
+  });
+
+  it("cycles through items when the same letter is repeated", () => {
+    fm.focusOnCharacter("b");
+    expect(list.key).toBe("banana");
+
+    fm.focusOnCharacter("b");
+    expect(list.key).toBe("blueberry");
+
+    fm.focusOnCharacter("b");
+    expect(list.key).toBe("banana");
+  });
+
+  it("starts a new search after the timeout", () => {
+    fm.focusOnCharacter("b");
+    vi.advanceTimersByTime(600);
+    fm.focusOnCharacter("c");
+
+    expect(list.key).toBe("cherry");
+  });
+
+  it("ignores case and accents", () => {
+    fm.focusOnCharacter("E");
+
+    expect(list.key).toBe("eclair");
+  });
+
+  it("does not wrap past the last item when wrapAround is false", () => {
+    createList(false);
+    fm.focusAreaKey("list", "cherry");
+
+    fm.focusOnCharacter("a");
+
+    expect(list.key).toBe("cherry");
+  });
+
+  it("wraps past the last item when wrapAround is true", () => {
+    fm.focusAreaKey("list", "cherry");
+
+    fm.focusOnCharacter("a");
+
+    expect(list.key).toBe("apple");
+  });
+});
+
+describe("FocusManager.subscribe", () => {
+  let fm: FocusManager<{
+    area1: ListFocusManager<string>;
+    area2: ListFocusManager<string>;
+  }>;
+  let area1: ListFocusManager<string>;
+  let area2: ListFocusManager<string>;
+  let hooks: string[];
+
+  beforeEach(() => {
+    hooks = [];
+
+    area1 = new ListFocusManager<string>({
+      getKeys: () => ["a", "b", "c"],
+      getOrientation: () => "vertical",
+      getInitialKeyOnAreaFocus: () => "a",
+      onEnter: () => hooks.push("area1:enter"),
+      onLeave: () => hooks.push("area1:leave"),
+      onKeyChange: (key, prevKey) => hooks.push(`area1:${prevKey}->${key}`),
+    });
+
+    area2 = new ListFocusManager<string>({
+      getKeys: () => ["x", "y", "z"],
+      getOrientation: () => "horizontal",
+      getInitialKeyOnAreaFocus: () => "x",
+      onEnter: () => hooks.push("area2:enter"),
+      onLeave: () => hooks.push("area2:leave"),
+      onKeyChange: (key, prevKey) => hooks.push(`area2:${prevKey}->${key}`),
+    });
+
+    fm = new FocusManager({
+      areas: { area1, area2 },
+      maxHistory: 10,
+    });
+  });
+
+  it("notifies listeners of area changes", () => {
+    const listener = vi.fn();
+    fm.subscribe(listener);
+
+    fm.focusArea("area1", "pointer");
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({
+      type: "area",
+      source: "pointer",
+      prevEntry: null,
+      entry: fm.entry,
+      prevKey: null,
+      key: "a",
+      prevPath: [],
+      path: [{ area: "area1", key: "a", meta: null }],
+    });
+  });
+
+  it("reports the outermost public operations to operation listeners", () => {
+    const listener = vi.fn();
+    const stop = fm.onOperation(listener);
+
+    fm.focusArea("area1", "pointer");
+    fm.focusOnArrowUp();
+    fm.goBack();
+
+    expect(listener.mock.calls.map(([event]) => event)).toEqual([
+      {
+        operation: "focusArea",
+        args: ["area1", "pointer", undefined],
+        source: "pointer",
+      },
+      { operation: "focusOnArrowUp", args: [], source: null },
+      { operation: "goBack", args: [], source: null },
+    ]);
+
+    stop();
+    fm.focusArea("area2");
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it("notifies listeners of key moves, history jumps and clear", () => {
+    fm.focusArea("area1");
+    fm.focusArea("area2");
+
+    const listener = vi.fn();
+    fm.subscribe(listener);
+
+    fm.focusOnArrowRight();
+    fm.goBack();
+    fm.clear();
+
+    expect(listener.mock.calls.map(([event]) => event.type)).toEqual([
+      "key",
+      "history",
+      "clear",
+    ]);
+    expect(listener.mock.calls[0][0]).toMatchObject({
+      source: "keyboard",
+      prevKey: "x",
+      key: "y",
+    });
+    expect(listener.mock.calls[1][0]).toMatchObject({
+      prevKey: "y",
+      key: "a",
+    });
+    expect(listener.mock.calls[2][0]).toMatchObject({
+      entry: null,
+      key: null,
+    });
+  });
+
+  it("does not notify when nothing changed", () => {
+    fm.focusArea("area1");
+
+    const listener = vi.fn();
+    fm.subscribe(listener);
+
+    fm.focusArea("area1", "keyboard"); // same area, same initial key
+    fm.focusOnArrowUp(); // already at the first key
+    fm.focusOnArrowLeft(); // not meaningful in a vertical list
+    fm.go(1); // out of bounds
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("stops notifying after unsubscribing", () => {
+    const listener = vi.fn();
+    const unsubscribe = fm.subscribe(listener);
+
+    unsubscribe();
+    fm.focusArea("area1");
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("calls per-area enter, leave and key change hooks", () => {
+    fm.focusArea("area1");
+    fm.focusOnArrowDown();
+    fm.focusAreaKey("area2", "z");
+    fm.focusOnArrowRight(); // boundary, no change
+
+    expect(hooks).toEqual([
+      "area1:enter",
+      "area1:null->a",
+      "area1:a->b",
+      "area1:leave",
+      "area2:enter",
+      "area2:null->z",
+    ]);
+  });
+});
+
+describe("FocusManager navigation with disabled keys", () => {
+  const keys = ["a", "b", "c", "d", "e", "f"];
+
+  function createList(
+    disabled: string[],
+    options: { wrapAround?: boolean; focusDisabledKeys?: boolean } = {}
+  ) {
+    const list = new ListFocusManager<string>({
+      getKeys: () => keys,
+      getFirstVisibleIndex: () => 0,
+      getLastVisibleIndex: () => 2,
+      getInitialKeyOnAreaFocus: () => "a",
+      isKeyDisabled: (key) => disabled.includes(key as string),
+      ...options,
+    });
+
+    const fm = new FocusManager({
+      areas: { list },
+      maxHistory: 10,
+    });
+
+    return { fm, list };
+  }
+
+  it("skips disabled keys on arrow navigation", () => {
+    const { fm, list } = createList(["b", "c"]);
+
+    fm.focusArea("list");
+    fm.focusOnArrowDown();
+    expect(list.key).toBe("d");
+
+    fm.focusOnArrowUp();
+    expect(list.key).toBe("a");
+  });
+
+  it("stays put at the boundary when only disabled keys follow", () => {
+    const { fm, list } = createList(["e", "f"]);
+
+    fm.focusAreaKey("list", "d");
+    fm.focusOnArrowDown();
+
+    expect(list.key).toBe("d");
+  });
+
+  it("skips disabled keys while wrapping around", () => {
+    const { fm, list } = createList(["f", "a"], { wrapAround: true });
+
+    fm.focusAreaKey("list", "e");
+    fm.focusOnArrowDown();
+    expect(list.key).toBe("b");
+
+    fm.focusOnArrowUp();
+    expect(list.key).toBe("e");
+  });
+
+  it("lands on the first and last enabled keys on Home/End", () => {
+    const { fm, list } = createList(["a", "f"]);
+
+    fm.focusAreaKey("list", "c");
+
+    fm.focusOnHome();
+    expect(list.key).toBe("b");
+
+    fm.focusOnEnd();
+    expect(list.key).toBe("e");
+  });
+
+  it("moves to the nearest enabled key when paging", () => {
+    const { fm, list } = createList(["c"]);
+
+    fm.focusAreaKey("list", "a");
+    fm.focusOnPageDown();
+
+    expect(list.key).toBe("b");
+  });
+
+  it("falls back to a neighbour when the initial key is disabled", () => {
+    const { fm, list } = createList(["a", "b"]);
+
+    fm.focusArea("list");
+
+    expect(list.key).toBe("c");
+  });
+
+  it("lets disabled keys take focus when focusDisabledKeys is set", () => {
+    const { fm, list } = createList(["a", "b"], { focusDisabledKeys: true });
+
+    fm.focusArea("list");
+    expect(list.key).toBe("a");
+
+    fm.focusOnArrowDown();
+    expect(list.key).toBe("b");
+  });
+});
+
+describe("FocusManager.handleKeyDown", () => {
+  let fm: FocusManager<{
+    toolbar: ListFocusManager<string>;
+    list: ListFocusManager<string>;
+  }>;
+  let toolbar: ListFocusManager<string>;
+  let list: ListFocusManager<string>;
+
+  const keyDown = (
+    key: string,
+    init: Partial<Parameters<typeof fm.handleKeyDown>[0]> = {}
+  ) => ({
+    key,
+    code: "",
+    ctrlKey: false,
+    altKey: false,
+    shiftKey: false,
+    metaKey: false,
+    ...init,
+  });
+
+  beforeEach(() => {
+    toolbar = new ListFocusManager<string>({
+      getKeys: () => ["x", "y", "z"],
+      getOrientation: () => "horizontal",
+      getInitialKeyOnAreaFocus: () => "x",
+    });
+
+    list = new ListFocusManager<string>({
+      getKeys: () => ["apple", "banana", "cherry"],
+      getOrientation: () => "vertical",
+      getInitialKeyOnAreaFocus: () => "apple",
+      getLabel: (key) => String(key),
+    });
+
+    fm = new FocusManager({
+      areas: { toolbar, list },
+      maxHistory: 10,
+      keymap: { "Alt+KeyJ": "arrowDown", PageDown: null },
+      areaKeymaps: { toolbar: { ArrowDown: "arrowRight" } },
+    });
+  });
+
+  it("dispatches default bindings to focusOn* methods", () => {
+    fm.focusArea("list");
+
+    expect(fm.handleKeyDown(keyDown("ArrowDown"))).toEqual({
+      action: "arrowDown",
+      handled: true,
+      changed: true,
+    });
+    expect(list.key).toBe("banana");
+
+    fm.handleKeyDown(keyDown("End"));
+    expect(list.key).toBe("cherry");
+  });
+
+  it("reports handled but unchanged at a boundary", () => {
+    fm.focusArea("list");
+
+    expect(fm.handleKeyDown(keyDown("ArrowUp"))).toEqual({
+      action: "arrowUp",
+      handled: true,
+      changed: false,
+    });
+  });
+
+  it("reports unhandled for keys the area does not support", () => {
+    fm.focusArea("list");
+
+    expect(fm.handleKeyDown(keyDown("ArrowLeft")).handled).toBe(false);
+    expect(fm.handleKeyDown(keyDown("Tab")).action).toBeNull();
+  });
+
+  it("matches bindings by code and modifiers", () => {
+    fm.focusArea("list");
+
+    fm.handleKeyDown(keyDown("∆", { code: "KeyJ", altKey: true }));
+
+    expect(list.key).toBe("banana");
+  });
+
+  it("lets the global keymap unbind default bindings", () => {
+    fm.focusArea("list");
+
+    expect(fm.handleKeyDown(keyDown("PageDown")).action).toBeNull();
+    expect(list.key).toBe("apple");
+  });
+
+  it("prefers the active area's keymap", () => {
+    fm.focusArea("toolbar");
+
+    fm.handleKeyDown(keyDown("ArrowDown"));
+
+    expect(toolbar.key).toBe("y");
+  });
+
+  it("uses unbound printable characters for type-ahead", () => {
+    fm.focusArea("list");
+
+    const result = fm.handleKeyDown(keyDown("c"));
+
+    expect(result.action).toBe("character");
+    expect(list.key).toBe("cherry");
+  });
+
+  it("ignores IME composition events", () => {
+    fm.focusArea("list");
+
+    const result = fm.handleKeyDown(
+      keyDown("ArrowDown", { isComposing: true })
+    );
+
+    expect(result.handled).toBe(false);
+    expect(list.key).toBe("apple");
+  });
+
+  it("skips events from editable targets unless allowed", () => {
+    fm.focusArea("list");
+
+    const target = { tagName: "INPUT", type: "text" } as unknown as EventTarget;
+
+    expect(fm.handleKeyDown(keyDown("ArrowDown", { target })).handled).toBe(
+      false
+    );
+    expect(list.key).toBe("apple");
+
+    fm.handleKeyDown(keyDown("ArrowDown", { target }), {
+      allowEditableTargets: true,
+    });
+    expect(list.key).toBe("banana");
+  });
+});
+
+describe("FocusManager nested areas", () => {
+  let fm: FocusManager<{
+    sidebar: FocusManager<{
+      tabs: ListFocusManager<string>;
+      files: ListFocusManager<string>;
+    }>;
+    editor: ListFocusManager<string>;
+  }>;
+  let sidebar: FocusManager<{
+    tabs: ListFocusManager<string>;
+    files: ListFocusManager<string>;
+  }>;
+  let tabs: ListFocusManager<string>;
+  let files: ListFocusManager<string>;
+  let editor: ListFocusManager<string>;
+
+  beforeEach(() => {
+    tabs = new ListFocusManager<string>({
+      getKeys: () => ["explorer", "search", "git"],
+      getOrientation: () => "horizontal",
+      getInitialKeyOnAreaFocus: () => "explorer",
+    });
+
+    files = new ListFocusManager<string>({
+      getKeys: () => ["a.ts", "b.ts", "c.ts"],
+      getInitialKeyOnAreaFocus: () => "a.ts",
+    });
+
+    editor = new ListFocusManager<string>({
+      getKeys: () => ["line1", "line2"],
+      getInitialKeyOnAreaFocus: () => "line1",
+    });
+
+    sidebar = new FocusManager({
+      areas: { tabs, files },
+      initialArea: "files",
+    });
+
+    fm = new FocusManager({
+      areas: { sidebar, editor },
+      maxHistory: 10,
+    });
+  });
+
+  it("focuses the initial area of a composite area", () => {
+    fm.focusArea("sidebar");
+
+    expect(sidebar.entry?.area).toBe("files");
+    expect(fm.getFocusPath()).toEqual([
+      { area: "sidebar", key: "files", meta: null },
+      { area: "files", key: "a.ts", meta: null },
+    ]);
+
+    fm.focusAreaKey("sidebar", "tabs");
+    expect(sidebar.entry?.area).toBe("tabs");
+    expect(tabs.key).toBe("explorer");
+  });
+
+  it("sends keyboard actions to the innermost active area", () => {
+    fm.focusArea("sidebar");
+
+    expect(fm.focusOnArrowDown()).toBe(true);
+    expect(files.key).toBe("b.ts");
+    expect(sidebar.entry?.source).toBe("keyboard");
+
+    sidebar.focusArea("tabs");
+    expect(fm.focusOnArrowDown()).toBe(false);
+    expect(fm.focusOnArrowRight()).toBe(true);
+    expect(tabs.key).toBe("search");
+  });
+
+  it("moves between nesting levels with focusParentArea and focusChildArea", () => {
+    fm.focusArea("sidebar");
+    fm.focusOnArrowDown();
+
+    expect(fm.focusParentArea()).toBe(true);
+    expect(fm.getFocusPath()).toEqual([
+      { area: "sidebar", key: "files", meta: null },
+    ]);
+
+    // at the sidebar level, arrows move between its areas
+    fm.focusOnArrowUp();
+    expect(sidebar.entry?.area).toBe("tabs");
+    expect(tabs.key).toBe("explorer");
+
+    fm.focusOnArrowDown();
+    expect(files.key).toBe("b.ts");
+
+    // the root has no parent level
+    expect(fm.focusParentArea()).toBe(false);
+
+    expect(fm.focusChildArea()).toBe(true);
+    expect(fm.focusChildArea()).toBe(false);
+
+    fm.focusOnArrowDown();
+    expect(files.key).toBe("c.ts");
+  });
+
+  it("activates the composite area when a nested area is focused directly", () => {
+    fm.focusArea("editor");
+
+    const listener = vi.fn();
+    fm.subscribe(listener);
+
+    sidebar.focusAreaKey("files", "b.ts", "pointer");
+
+    expect(fm.entry?.area).toBe("sidebar");
+    expect(fm.entry?.source).toBe("pointer");
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].path).toEqual([
+      { area: "sidebar", key: "files", meta: null },
+      { area: "files", key: "b.ts", meta: null },
+    ]);
+  });
+
+  it("notifies subscribers of every level of key moves inside composite areas", () => {
+    fm.focusArea("sidebar");
+
+    const rootListener = vi.fn();
+    const sidebarListener = vi.fn();
+    fm.subscribe(rootListener);
+    sidebar.subscribe(sidebarListener);
+
+    fm.focusOnArrowDown();
+
+    expect(rootListener).toHaveBeenCalledTimes(1);
+    expect(sidebarListener).toHaveBeenCalledTimes(1);
+    expect(sidebarListener.mock.calls[0][0].key).toBe("b.ts");
+  });
+
+  it("restores the nested focus path on history navigation", () => {
+    fm.focusAreaKey("sidebar", "tabs");
+    fm.focusOnArrowRight();
+    fm.focusArea("editor");
+
+    sidebar.focusAreaKey("files", "c.ts");
+    fm.focusArea("editor");
+
+    fm.go(-3);
+    expect(fm.entry?.area).toBe("sidebar");
+    expect(sidebar.entry?.area).toBe("tabs");
+    expect(tabs.key).toBe("search");
+
+    fm.go(2);
+    expect(sidebar.entry?.area).toBe("files");
+    expect(files.key).toBe("c.ts");
+  });
+
+  it("maps Escape and Enter to the nesting level operations", () => {
+    const keyDown = (key: string) => ({
+      key,
+      code: "",
+      ctrlKey: false,
+      altKey: false,
+      shiftKey: false,
+      metaKey: false,
+    });
+
+    fm.focusArea("sidebar");
+
+    expect(fm.handleKeyDown(keyDown("Escape")).handled).toBe(true);
+    expect(fm.handleKeyDown(keyDown("Escape")).handled).toBe(false);
+    expect(fm.handleKeyDown(keyDown("Enter")).handled).toBe(true);
+    expect(fm.handleKeyDown(keyDown("Enter")).handled).toBe(false);
+  });
+
+  it("keeps enter and leave hooks of nested areas balanced", () => {
+    const hooks: string[] = [];
+    const createList = (name: string) =>
+      new ListFocusManager<string>({
+        getKeys: () => [`${name}1`, `${name}2`],
+        getInitialKeyOnAreaFocus: () => `${name}1`,
+        onEnter: () => hooks.push(`${name}:enter`),
+        onLeave: () => hooks.push(`${name}:leave`),
+      });
+
+    const inner = new FocusManager({
+      areas: { a: createList("a"), b: createList("b") },
+      initialArea: "a",
+    });
+    const outer = new FocusManager({
+      areas: { inner, c: createList("c") },
+      initialArea: "inner",
+    });
+    const root = new FocusManager({
+      areas: { outer, editor: createList("editor") },
+    });
+
+    const expectHooks = (expected: string[]) => {
+      expect(hooks.splice(0)).toEqual(expected);
+    };
+
+    root.focusArea("outer");
+    expectHooks(["a:enter"]);
+
+    root.focusArea("editor");
+    expectHooks(["a:leave", "editor:enter"]);
+
+    root.goBack();
+    expectHooks(["editor:leave", "a:enter"]);
+
+    inner.focusArea("b");
+    expectHooks(["a:leave", "b:enter"]);
+
+    outer.focusArea("c");
+    expectHooks(["b:leave", "c:enter"]);
+
+    root.focusArea("editor");
+    expectHooks(["c:leave", "editor:enter"]);
+
+    inner.focusArea("a");
+    expectHooks(["editor:leave", "a:enter"]);
+  });
+});
+
+describe("FocusManager area traversal", () => {
+  let toolbar: ListFocusManager<string>;
+  let sidebar: ListFocusManager<string>;
+  let table: ListFocusManager<string>;
+  let sidebarKeys: string[];
+
+  beforeEach(() => {
+    sidebarKeys = ["s1", "s2"];
+
+    toolbar = new ListFocusManager<string>({
+      getKeys: () => ["bold", "italic"],
+      getInitialKeyOnAreaFocus: () => "bold",
+    });
+
+    sidebar = new ListFocusManager<string>({
+      getKeys: () => sidebarKeys,
+      getInitialKeyOnAreaFocus: () => sidebarKeys[0] ?? null,
+    });
+
+    table = new ListFocusManager<string>({
+      getKeys: () => ["r1", "r2"],
+      getInitialKeyOnAreaFocus: () => "r2",
+    });
+  });
+
+  it("moves through areas in areaOrder and enters at the initial key", () => {
+    const fm = new FocusManager({
+      areas: { toolbar, sidebar, table },
+      areaOrder: ["table", "toolbar", "sidebar"],
+    });
+
+    expect(fm.focusNextArea()).toBe(true);
+    expect(fm.entry?.area).toBe("table");
+    expect(table.key).toBe("r2");
+    expect(fm.entry?.source).toBe("keyboard");
+
+    fm.focusNextArea();
+    expect(fm.entry?.area).toBe("toolbar");
+
+    fm.focusPreviousArea();
+    expect(fm.entry?.area).toBe("table");
+  });
+
+  it("skips empty areas", () => {
+    sidebarKeys = [];
+
+    const fm = new FocusManager({ areas: { toolbar, sidebar, table } });
+
+    fm.focusArea("toolbar");
+    fm.focusNextArea();
+    expect(fm.entry?.area).toBe("table");
+  });
+
+  it("reports leaving the region at the ends unless wrapping", () => {
+    const onLeaveRegion = vi.fn();
+    const fm = new FocusManager({
+      areas: { toolbar, sidebar, table },
+      onLeaveRegion,
+    });
+
+    fm.focusArea("table");
+    expect(fm.focusNextArea()).toBe(false);
+    expect(fm.entry?.area).toBe("table");
+    expect(onLeaveRegion).toHaveBeenCalledWith({
+      direction: 1,
+      sequence: "tab",
+    });
+
+    fm.dispose();
+
+    const wrapping = new FocusManager({
+      areas: { toolbar, sidebar, table },
+      wrapAreas: true,
+    });
+
+    wrapping.focusArea("toolbar");
+    wrapping.focusPreviousArea();
+    expect(wrapping.entry?.area).toBe("table");
+  });
+
+  it("keeps separate Tab and F6 sequences", () => {
+    const fm = new FocusManager({
+      areas: { toolbar, sidebar, table },
+      areaOrder: () => ["toolbar", "sidebar", "table"],
+      landmarkOrder: ["toolbar", "table"],
+    });
+
+    const keyDown = (key: string, shiftKey = false) => ({
+      key,
+      code: "",
+      ctrlKey: false,
+      altKey: false,
+      shiftKey,
+      metaKey: false,
+    });
+
+    fm.focusArea("toolbar");
+
+    expect(fm.handleKeyDown(keyDown("F6")).handled).toBe(true);
+    expect(fm.entry?.area).toBe("table");
+
+    expect(fm.handleKeyDown(keyDown("F6", true)).handled).toBe(true);
+    expect(fm.entry?.area).toBe("toolbar");
+
+    fm.focusNextArea("tab");
+    expect(fm.entry?.area).toBe("sidebar");
+  });
+
+  it("continues in the parent once a nested FocusManager is exhausted", () => {
+    const panel = new FocusManager({ areas: { toolbar, sidebar } });
+    const fm = new FocusManager({ areas: { panel, table } });
+
+    fm.focusArea("panel");
+    expect(panel.entry?.area).toBe("toolbar");
+
+    fm.focusNextArea();
+    expect(fm.entry?.area).toBe("panel");
+    expect(panel.entry?.area).toBe("sidebar");
+
+    fm.focusNextArea();
+    expect(fm.entry?.area).toBe("table");
+  });
+});
+
+describe("FocusManager focus scopes", () => {
+  let fm: FocusManager<{
+    page: ListFocusManager<string>;
+    dialog: ListFocusManager<string>;
+    dialogButtons: ListFocusManager<string>;
+    confirm: ListFocusManager<string>;
+  }>;
+  let page: ListFocusManager<string>;
+  let dialog: ListFocusManager<string>;
+  let dialogButtons: ListFocusManager<string>;
+  let confirm: ListFocusManager<string>;
+
+  beforeEach(() => {
+    page = new ListFocusManager<string>({
+      getKeys: () => ["p1", "p2", "p3"],
+      getInitialKeyOnAreaFocus: () => "p1",
+    });
+
+    dialog = new ListFocusManager<string>({
+      getKeys: () => ["d1", "d2"],
+      getInitialKeyOnAreaFocus: () => "d1",
+    });
+
+    dialogButtons = new ListFocusManager<string>({
+      getKeys: () => ["ok", "cancel"],
+      getInitialKeyOnAreaFocus: () => "ok",
+    });
+
+    confirm = new ListFocusManager<string>({
+      getKeys: () => ["yes", "no"],
+      getInitialKeyOnAreaFocus: () => "no",
+    });
+
+    fm = new FocusManager({
+      areas: { page, dialog, dialogButtons, confirm },
+      maxHistory: 10,
+    });
+
+    fm.focusAreaKey("page", "p3");
+  });
+
+  it("focuses the initial area of the scope and refuses areas outside it", () => {
+    fm.pushScope({
+      areas: ["dialog", "dialogButtons"],
+      initialArea: "dialogButtons",
+    });
+
+    expect(fm.entry?.area).toBe("dialogButtons");
+    expect(fm.scope?.areas).toEqual(["dialog", "dialogButtons"]);
+
+    expect(fm.focusArea("page")).toBe(false);
+    expect(fm.focusAreaKey("page", "p1")).toBe(false);
+    expect(fm.entry?.area).toBe("dialogButtons");
+    expect(page.key).toBe("p3");
+
+    expect(fm.focusArea("dialog")).toBe(true);
+    fm.goBack();
+    fm.goBack();
+    expect(fm.entry?.area).toBe("dialogButtons");
+  });
+
+  it("skips history entries of areas outside the scope", () => {
+    fm.focusArea("dialog");
+    fm.focusArea("page");
+    fm.pushScope({
+      areas: ["dialog", "dialogButtons"],
+      initialArea: "dialogButtons",
+    });
+
+    fm.goBack();
+    expect(fm.entry?.area).toBe("dialog");
+    expect(fm.getHistoryPosition()).toEqual({ index: 1, length: 4 });
+
+    // no entry in scope before it
+    fm.goBack();
+    expect(fm.entry?.area).toBe("dialog");
+
+    fm.go(1);
+    expect(fm.entry?.area).toBe("dialogButtons");
+  });
+
+  it("keeps area traversal inside the scope", () => {
+    fm.pushScope({ areas: ["dialog", "dialogButtons"] });
+
+    expect(fm.entry?.area).toBe("dialog");
+
+    fm.focusNextArea();
+    expect(fm.entry?.area).toBe("dialogButtons");
+
+    fm.focusNextArea();
+    expect(fm.entry?.area).toBe("dialog");
+  });
+
+  it("restores the previous entry and key when the scope is popped", () => {
+    const pageEntry = fm.entry;
+
+    fm.pushScope({ areas: ["dialog", "dialogButtons"] });
+    fm.focusOnArrowDown();
+    page.key = "p1";
+
+    expect(fm.popScope()).toBe(true);
+    expect(fm.entry).toBe(pageEntry);
+    expect(page.key).toBe("p3");
+    expect(fm.scope).toBeNull();
+
+    // entries of the scope are discarded
+    fm.go(1);
+    expect(fm.entry).toBe(pageEntry);
+
+    expect(fm.popScope()).toBe(false);
+  });
+
+  it("nests scopes for stacked dialogs", () => {
+    fm.pushScope({ areas: ["dialog", "dialogButtons"] });
+    fm.focusAreaKey("dialogButtons", "cancel");
+
+    fm.pushScope({ areas: ["confirm"] });
+    expect(fm.entry?.area).toBe("confirm");
+    expect(fm.focusArea("dialog")).toBe(false);
+
+    fm.popScope();
+    expect(fm.entry?.area).toBe("dialogButtons");
+    expect(dialogButtons.key).toBe("cancel");
+    expect(fm.focusArea("dialog")).toBe(true);
+
+    fm.popScope();
+    expect(fm.entry?.area).toBe("page");
+    expect(page.key).toBe("p3");
+  });
+});
+
+describe("FocusManager snapshots", () => {
+  type Areas = {
+    list: ListFocusManager<{ id: number }>;
+    toolbar: ListFocusManager<{ id: number }>;
+  };
+
+  let listKeys: string[];
+
+  const createFocusManager = (areas: Partial<Areas> = {}) => {
+    const list = new ListFocusManager<{ id: number }>({
+      getKeys: () => listKeys,
+      getInitialKeyOnAreaFocus: () => listKeys[0] ?? null,
+    });
+
+    const toolbar = new ListFocusManager<{ id: number }>({
+      getKeys: () => ["bold", "italic"],
+      getInitialKeyOnAreaFocus: () => "bold",
+    });
+
+    return new FocusManager<Partial<Areas>>({
+      areas: { list, toolbar, ...areas },
+      maxHistory: 10,
+    });
+  };
+
+  beforeEach(() => {
+    listKeys = ["a", "b", "c"];
+  });
+
+  it("round-trips through JSON", () => {
+    const fm = createFocusManager();
+
+    fm.focusAreaKey("toolbar", "italic", "pointer", { id: 1 });
+    fm.focusAreaKey("list", "c", "keyboard", { id: 2 });
+
+    const json = JSON.stringify(fm.getSnapshot());
+
+    const restored = createFocusManager();
+    const listener = vi.fn();
+    restored.subscribe(listener);
+
+    restored.restoreSnapshot(JSON.parse(json));
+
+    expect(restored.entry?.area).toBe("list");
+    expect(restored.entry?.source).toBe("keyboard");
+    expect(restored.entry?.meta).toEqual({ id: 2 });
+    expect(restored.areas.list?.key).toBe("c");
+    expect(restored.areas.toolbar?.key).toBe("italic");
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    restored.goBack();
+    expect(restored.entry?.area).toBe("toolbar");
+  });
+
+  it("passes meta through the serializer callbacks", () => {
+    const fm = createFocusManager();
+    fm.focusArea("list", "programmatic", { id: 7 });
+
+    const snapshot = fm.getSnapshot({
+      serializeMeta: (meta) => String((meta as { id: number }).id),
+    });
+    expect(snapshot.entries[0].meta).toBe("7");
+
+    const restored = createFocusManager();
+    restored.restoreSnapshot(snapshot, {
+      deserializeMeta: (meta) => ({ id: Number(meta) }),
+    });
+
+    expect(restored.entry?.meta).toEqual({ id: 7 });
+  });
+
+  it("drops entries of missing areas and keys that no longer exist", () => {
+    const fm = createFocusManager();
+
+    fm.focusArea("list");
+    fm.focusAreaKey("toolbar", "italic");
+    const snapshot = fm.getSnapshot();
+
+    listKeys = ["x", "y"];
+
+    const list = new ListFocusManager<{ id: number }>({
+      getKeys: () => listKeys,
+      getInitialKeyOnAreaFocus: () => "y",
+    });
+    const restored = new FocusManager<Partial<Areas>>({ areas: { list } });
+
+    restored.restoreSnapshot(snapshot);
+
+    expect(restored.entry?.area).toBe("list");
+    expect(restored.getEntryAt(-1)).toBeNull();
+    expect(list.key).toBe("y");
+  });
+
+  it("restores composite areas", () => {
+    const inner = createFocusManager();
+    const fm = new FocusManager({ areas: { inner } });
+
+    fm.focusArea("inner");
+    fm.focusOnArrowDown();
+
+    const restoredInner = createFocusManager();
+    const restored = new FocusManager({ areas: { inner: restoredInner } });
+
+    restored.restoreSnapshot(JSON.parse(JSON.stringify(fm.getSnapshot())));
+
+    expect(restored.getFocusPath()).toEqual([
+      { area: "inner", key: "list", meta: null },
+      { area: "list", key: "b", meta: null },
+    ]);
+  });
+});
+
+describe("FocusManager history keys", () => {
+  let fm: FocusManager<{
+    list: ListFocusManager<string>;
+    toolbar: ListFocusManager<string>;
+  }>;
+  let list: ListFocusManager<string>;
+  let toolbar: ListFocusManager<string>;
+  let listKeys: string[];
+
+  beforeEach(() => {
+    listKeys = ["a", "b", "c", "d"];
+
+    list = new ListFocusManager<string>({
+      getKeys: () => listKeys,
+      getInitialKeyOnAreaFocus: () => "a",
+      isKeyDisabled: (key) => key === "x",
+    });
+
+    toolbar = new ListFocusManager<string>({
+      getKeys: () => ["bold", "italic", "underline"],
+      getInitialKeyOnAreaFocus: () => "bold",
+    });
+
+    fm = new FocusManager({
+      areas: { list, toolbar },
+      maxHistory: 10,
+    });
+  });
+
+  it("restores the key an entry had when it was left", () => {
+    fm.focusAreaKey("list", "c");
+    fm.focusArea("toolbar");
+    fm.focusOnArrowDown();
+
+    // the key changes while the area is inactive
+    list.key = "a";
+
+    fm.goBack();
+    expect(fm.entry?.area).toBe("list");
+    expect(list.key).toBe("c");
+  });
+
+  it("restores the exact key on forward navigation", () => {
+    fm.focusArea("list");
+    fm.focusArea("toolbar");
+    fm.focusOnArrowDown();
+    fm.focusOnArrowDown();
+
+    fm.goBack();
+    toolbar.key = "bold";
+
+    fm.go(1);
+    expect(fm.entry?.area).toBe("toolbar");
+    expect(toolbar.key).toBe("underline");
+  });
+
+  it("falls back to a nearby key if the key has disappeared", () => {
+    fm.focusAreaKey("list", "c");
+    fm.focusArea("toolbar");
+
+    listKeys = ["a", "b", "x", "d"];
+
+    fm.goBack();
+    expect(list.key).toBe("d");
+
+    fm.focusArea("toolbar");
+    listKeys = [];
+    fm.goBack();
+    expect(list.key).toBeNull();
+  });
+});
+
+describe("FocusManager.reconcile", () => {
+  let fm: FocusManager<{ list: ListFocusManager<string> }>;
+  let list: ListFocusManager<string>;
+  let keys: string[];
+
+  const createFocusManager = (
+    props: Partial<ListFocusManagerProps<string>> = {}
+  ) => {
+    list = new ListFocusManager<string>({
+      getKeys: () => keys,
+      getInitialKeyOnAreaFocus: () => "a",
+      ...props,
+    });
+
+    fm = new FocusManager({ areas: { list } });
+  };
+
+  beforeEach(() => {
+    keys = ["a", "b", "c", "d"];
+    createFocusManager();
+  });
+
+  it("moves focus to the key that took the removed key's place", () => {
+    fm.focusAreaKey("list", "b");
+
+    const listener = vi.fn();
+    fm.subscribe(listener);
+
+    keys = ["a", "c", "d"];
+
+    expect(fm.reconcile()).toBe(true);
+    expect(list.key).toBe("c");
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "reconcile", prevKey: "b", key: "c" })
+    );
+
+    expect(fm.reconcile()).toBe(false);
+  });
+
+  it("moves focus to the previous key when the last key is removed", () => {
+    fm.focusAreaKey("list", "d");
+
+    keys = ["a", "b", "c"];
+    fm.reconcile();
+
+    expect(list.key).toBe("c");
+  });
+
+  it("uses getFallbackKey when provided", () => {
+    const getFallbackKey = vi.fn(() => "a");
+    createFocusManager({ getFallbackKey });
+
+    fm.focusAreaKey("list", "c");
+    keys = ["a", "b", "d"];
+    fm.reconcile();
+
+    expect(getFallbackKey).toHaveBeenCalledWith("c", 2, expect.anything());
+    expect(list.key).toBe("a");
+  });
+
+  it("continues arrow navigation from the removed key's position", () => {
+    fm.focusAreaKey("list", "b");
+    keys = ["a", "c", "d"];
+
+    fm.focusOnArrowDown();
+    expect(list.key).toBe("c");
+
+    fm.focusAreaKey("list", "c");
+    keys = ["a", "d"];
+
+    fm.focusOnArrowUp();
+    expect(list.key).toBe("a");
+  });
+});
+
+describe("FocusManager area registration", () => {
+  let main: ListFocusManager;
+  let plugin: ListFocusManager;
+  let fm: FocusManager<{ main: ListFocusManager; plugin?: ListFocusManager }>;
+
+  beforeEach(() => {
+    main = new ListFocusManager({
+      getKeys: () => ["a", "b", "c"],
+      getInitialKeyOnAreaFocus: () => "a",
+    });
+
+    plugin = new ListFocusManager({
+      getKeys: () => ["x", "y"],
+      getInitialKeyOnAreaFocus: () => "x",
+    });
+
+    fm = new FocusManager({ areas: { main } });
+  });
+
+  it("registers areas at runtime", () => {
+    const unregister = fm.registerArea("plugin", plugin);
+
+    expect(plugin.parent).toBe(fm);
+    expect(fm.getAreaOrder()).toEqual(["main", "plugin"]);
+    expect(fm.focusArea("plugin")).toBe(true);
+    expect(plugin.key).toBe("x");
+
+    unregister();
+    expect(fm.areas).toEqual({ main });
+  });
+
+  it("only accepts the declared manager type for declared areas", () => {
+    const extra = new ListFocusManager({ getKeys: () => [] });
+
+    // @ts-expect-error "main" is already declared as a list area
+    expect(() => fm.registerArea("main", fm)).toThrow(
+      'FocusManager: area "main" is already registered.'
+    );
+
+    fm.registerArea("extra", extra);
+    expect(fm.areas).toHaveProperty("extra", extra);
+  });
+
+  it("throws when an area manager is registered twice", () => {
+    expect(() => new FocusManager({ areas: { main } })).toThrow(
+      /already registered in another FocusManager/
+    );
+
+    expect(() => fm.registerArea("plugin", main)).toThrow(
+      'FocusManager: the area manager of "plugin" is already registered as area "main".'
+    );
+
+    expect(
+      () => new FocusManager({ areas: { first: plugin, second: plugin } })
+    ).toThrow(/already registered as area "second"/);
+  });
+
+  it("drops the history of an unregistered area and restores the previous entry", () => {
+    const onLeave = vi.fn();
+    plugin = new ListFocusManager({ getKeys: () => ["x", "y"], onLeave });
+
+    fm.registerArea("plugin", plugin);
+    fm.focusAreaKey("main", "b");
+    fm.focusAreaKey("plugin", "y");
+    fm.focusArea("main");
+    fm.focusAreaKey("plugin", "x");
+
+    const listener = vi.fn();
+    fm.subscribe(listener);
+    onLeave.mockClear();
+
+    expect(fm.unregisterArea("plugin")).toBe(true);
+
+    expect(fm.entry?.area).toBe("main");
+    expect(fm.getPreviousEntry()).toBeNull();
+    expect(main.key).toBe("a");
+    expect(onLeave).toHaveBeenCalledTimes(1);
+    expect(plugin.parent).toBeUndefined();
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "unregister", key: "a" })
+    );
+
+    expect(fm.unregisterArea("plugin")).toBe(false);
+  });
+
+  it("notifies subscribers when the entries of an inactive area are dropped", () => {
+    fm.registerArea("plugin", plugin);
+    fm.focusArea("main");
+    fm.focusArea("plugin");
+    fm.focusArea("main");
+
+    const listener = vi.fn();
+    fm.subscribe(listener);
+
+    const entry = fm.entry;
+    fm.unregisterArea("plugin");
+
+    expect(fm.entry).toBe(entry);
+    expect(fm.getHistoryPosition()).toEqual({ index: 0, length: 1 });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "unregister", prevEntry: entry, entry })
+    );
+  });
+
+  it("does not restore an unregistered area when a scope is popped", () => {
+    fm.registerArea("plugin", plugin);
+    fm.focusArea("plugin");
+    fm.pushScope({ areas: ["main"] });
+
+    fm.unregisterArea("plugin");
+    fm.popScope();
+
+    expect(fm.entry?.area).toBe("main");
+  });
+
+  it("disposes nested areas and leaves its parent", () => {
+    fm.dispose();
+
+    const nested = new FocusManager({ areas: { plugin } });
+    const root = new FocusManager({ areas: { main, nested } });
+    root.focusAreaKey("nested", "plugin");
+
+    nested.dispose();
+
+    expect(root.areas).toEqual({ main });
+    expect(root.entry).toBeNull();
+    expect(nested.parent).toBeUndefined();
+    expect(plugin.parent).toBeUndefined();
+
+    root.dispose();
+    expect(main.parent).toBeUndefined();
+    expect(new FocusManager({ areas: { main } }).areas).toEqual({ main });
+  });
+});
+
+describe("ListFocusManager index-based keys", () => {
+  const count = 1_000_000;
+
+  let getKeyCount: ReturnType<typeof vi.fn<() => number>>;
+  let getKeyAt: ReturnType<typeof vi.fn<(index: number) => string>>;
+  let getIndexOfKey: ReturnType<typeof vi.fn<(key: FocusKey) => number>>;
+  let disabled: Set<string>;
+  let list: ListFocusManager;
+  let fm: FocusManager<{ list: ListFocusManager }>;
+
+  beforeEach(() => {
+    disabled = new Set();
+
+    getKeyCount = vi.fn(() => count);
+    getKeyAt = vi.fn((index: number) => `row-${index}`);
+    getIndexOfKey = vi.fn((key: FocusKey) => {
+      const index = Number(String(key).slice(4));
+      return index >= 0 && index < count ? index : -1;
+    });
+
+    list = new ListFocusManager({
+      getKeyCount,
+      getKeyAt,
+      getIndexOfKey,
+      getInitialKeyOnAreaFocus: () => "row-0",
+      isKeyDisabled: (key) => disabled.has(key as string),
+      getFirstVisibleIndex: () => 500,
+      getLastVisibleIndex: () => 520,
+      getLabel: (key) => (key === "row-3" ? "Warning" : "Info"),
+    });
+
+    fm = new FocusManager({ areas: { list } });
+    fm.focusAreaKey("list", "row-500");
+  });
+
+  const expectCalls = (keyCount: number, keyAt: number, indexOfKey: number) => {
+    expect(getKeyCount).toHaveBeenCalledTimes(keyCount);
+    expect(getKeyAt).toHaveBeenCalledTimes(keyAt);
+    expect(getIndexOfKey).toHaveBeenCalledTimes(indexOfKey);
+  };
+
+  it("calls each callback at most once per arrow, page and home/end operation", () => {
+    vi.clearAllMocks();
+    fm.focusOnArrowDown();
+    expect(list.key).toBe("row-501");
+    expectCalls(1, 1, 1);
+
+    vi.clearAllMocks();
+    fm.focusOnPageDown();
+    expect(list.key).toBe("row-520");
+    expectCalls(1, 1, 1);
+
+    vi.clearAllMocks();
+    fm.focusOnEnd();
+    expect(list.key).toBe("row-999999");
+    expectCalls(1, 1, 0);
+
+    vi.clearAllMocks();
+    fm.focusOnHome();
+    expect(list.key).toBe("row-0");
+    expectCalls(1, 1, 0);
+  });
+
+  it("looks up a key once when setting it", () => {
+    fm.focusOnArrowDown();
+    const snapshot = fm.getSnapshot();
+    fm.focusOnHome();
+
+    vi.clearAllMocks();
+    list.key = "row-7";
+    expectCalls(0, 0, 1);
+
+    vi.clearAllMocks();
+    fm.restoreSnapshot(snapshot);
+    expect(list.key).toBe("row-501");
+    expectCalls(0, 0, 1);
+
+    vi.clearAllMocks();
+    fm.focusOnArrowDown();
+    expect(list.key).toBe("row-502");
+    expectCalls(1, 1, 1);
+  });
+
+  it("fetches each skipped disabled key once", () => {
+    disabled = new Set(["row-501", "row-502"]);
+
+    vi.clearAllMocks();
+    fm.focusOnArrowDown();
+
+    expect(list.key).toBe("row-503");
+    expect(getKeyAt.mock.calls.map(([index]) => index)).toEqual([
+      501, 502, 503,
+    ]);
+    expectCalls(1, 3, 1);
+  });
+
+  it("supports type-ahead and removed keys", () => {
+    fm.focusAreaKey("list", "row-0");
+    fm.focusOnCharacter("w");
+    expect(list.key).toBe("row-3");
+
+    getIndexOfKey.mockImplementation(() => -1);
+    getKeyCount.mockImplementation(() => 2);
+
+    expect(fm.reconcile()).toBe(true);
+    expect(list.key).toBe("row-1");
+  });
+
+  it("materializes the keys only on request", () => {
+    getKeyCount.mockImplementation(() => 3);
+
+    expect(list.getKeys()).toEqual(["row-0", "row-1", "row-2"]);
+    expect(list.getKeyCount()).toBe(3);
+    expect(list.sliceKeys(1, 5)).toEqual(["row-1", "row-2"]);
+  });
+
+  it("throws without a key source", () => {
+    expect(() => new ListFocusManager({})).toThrow(/no keys/);
+    expect(() => new ListFocusManager({ getKeyCount: () => 0 })).toThrow(
+      /no keys/
+    );
+  });
+});
+
+describe("ListFocusManager flow layout", () => {
+  // a b c d
+  // e f g h
+  // i j
+  const keys = ["a", "b", "c", "d", "e", "f", "g", "h", "i", "j"];
+
+  let fm: FocusManager<{ icons: ListFocusManager<string> }>;
+  let icons: ListFocusManager<string>;
+  let disabled: Set<string>;
+
+  const setup = (props: Partial<ListFocusManagerProps<string>> = {}) => {
+    icons = new ListFocusManager<string>({
+      getKeys: () => keys,
+      getColumnCount: () => 4,
+      getInitialKeyOnAreaFocus: () => "a",
+      isKeyDisabled: (key) => disabled.has(key as string),
+      getFirstVisibleIndex: () => 0,
+      getLastVisibleIndex: () => 7,
+      ...props,
+    });
+
+    fm = new FocusManager({ areas: { icons } });
+  };
+
+  beforeEach(() => {
+    disabled = new Set();
+    setup();
+  });
+
+  it("moves by one item horizontally and by one row vertically", () => {
+    fm.focusAreaKey("icons", "c");
+
+    fm.focusOnArrowRight();
+    expect(icons.key).toBe("d");
+
+    fm.focusOnArrowRight();
+    expect(icons.key).toBe("e");
+
+    fm.focusOnArrowUp();
+    expect(icons.key).toBe("a");
+
+    fm.focusOnArrowDown();
+    fm.focusOnArrowDown();
+    expect(icons.key).toBe("i");
+  });
+
+  it("keeps the column across a shorter last row", () => {
+    fm.focusAreaKey("icons", "c");
+
+    fm.focusOnArrowDown();
+    fm.focusOnArrowDown();
+    expect(icons.key).toBe("j");
+
+    fm.focusOnArrowUp();
+    expect(icons.key).toBe("g");
+
+    fm.focusOnArrowDown();
+    expect(icons.key).toBe("j");
+  });
+
+  it("wraps between the first and last rows with wrapAround", () => {
+    setup({ wrapAround: true });
+    fm.focusAreaKey("icons", "c");
+
+    fm.focusOnArrowUp();
+    expect(icons.key).toBe("j");
+
+    fm.focusOnArrowDown();
+    expect(icons.key).toBe("c");
+  });
+
+  it("stops at the first and last rows without wrapAround", () => {
+    fm.focusAreaKey("icons", "j");
+
+    expect(fm.focusOnArrowDown()).toBe(true);
+    expect(icons.key).toBe("j");
+
+    fm.focusAreaKey("icons", "b");
+    fm.focusOnArrowUp();
+    expect(icons.key).toBe("b");
+  });
+
+  it("skips disabled items when moving by rows", () => {
+    disabled.add("f");
+    fm.focusAreaKey("icons", "b");
+
+    fm.focusOnArrowDown();
+    expect(icons.key).toBe("j");
+  });
+
+  it("moves within the row on Home/End and within the list with Ctrl", () => {
+    fm.focusAreaKey("icons", "f");
+
+    fm.focusOnHome();
+    expect(icons.key).toBe("e");
+
+    fm.focusOnEnd();
+    expect(icons.key).toBe("h");
+
+    fm.focusAreaKey("icons", "i");
+    fm.focusOnEnd();
+    expect(icons.key).toBe("j");
+
+    fm.focusOnHome(true);
+    expect(icons.key).toBe("a");
+
+    fm.focusOnEnd(true);
+    expect(icons.key).toBe("j");
+  });
+
+  it("pages by whole visible rows, keeping the column", () => {
+    fm.focusAreaKey("icons", "b");
+
+    expect(fm.focusOnPageDown()).toBe(true);
+    expect(icons.key).toBe("f");
+
+    fm.focusOnPageUp();
+    expect(icons.key).toBe("b");
+  });
+
+  it("follows the inline direction in right-to-left text", () => {
+    setup({ getDirection: () => "rtl" });
+    fm.focusAreaKey("icons", "b");
+
+    fm.focusOnArrowLeft();
+    expect(icons.key).toBe("c");
+
+    fm.focusOnArrowDown();
+    expect(icons.key).toBe("g");
+  });
+
+  it("moves rows along the block axis in vertical writing modes", () => {
+    setup({ getWritingMode: () => "vertical-rl" });
+    fm.focusAreaKey("icons", "b");
+
+    fm.focusOnArrowDown();
+    expect(icons.key).toBe("c");
+
+    fm.focusOnArrowLeft();
+    expect(icons.key).toBe("g");
+
+    fm.focusOnArrowRight();
+    expect(icons.key).toBe("c");
+  });
+});
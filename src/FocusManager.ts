@@ -1,55 +1,153 @@
-import { ListFocusManager } from "./ListFocusManager";
 import type {
+  AreaFocusKey,
+  AreaFocusManager,
+  FocusAction,
   FocusAreaEntry,
+  FocusAreaSequence,
+  FocusChangeListener,
+  FocusChangeType,
+  FocusHistoryPosition,
   FocusKey,
+  FocusKeyDownOptions,
+  FocusKeyDownResult,
+  FocusKeyboardEvent,
   FocusManagerProps,
+  FocusOperation,
+  FocusOperationListener,
+  FocusPathEntry,
+  FocusRestoreOptions,
+  FocusScope,
+  FocusScopeOptions,
+  FocusSnapshot,
+  FocusSnapshotOptions,
   FocusSource,
+  GridFocusCell,
+  KeyFromAreaFocusManager,
   MetaFromAreaFocusManager,
+  SpatialDirection,
 } from "./types";
+import type { ListFocusManager } from "./ListFocusManager";
+import type { SpatialFocusManager } from "./SpatialFocusManager";
+import { defaultKeymap, isEditableTarget, resolveFocusAction } from "./keymap";
+import {
+  clampIndex,
+  copyAreaKey,
+  isSameAreaKey,
+  isSameFocusPath,
+  wrapIndex,
+} from "./utils";
 
 /**
  * FocusManager is responsible for coordinating focus across multiple named areas,
  * each managed by its own area focus manager. It maintains a history stack of area
  * entries to support back/forward navigation between focus contexts.
  *
+ * A FocusManager can itself be registered as an area of another FocusManager,
+ * forming a composite area. Keyboard actions are forwarded to the innermost
+ * active area, and `focusParentArea` / `focusChildArea` move focus between the
+ * nesting levels.
+ *
  * @template T A record mapping area identifiers to their corresponding area focus manager instances.
  */
-export class FocusManager<T extends Record<string, ListFocusManager>> {
+export class FocusManager<T extends Record<string, AreaFocusManager>> {
   /**
    * Creates a new FocusManager.
    *
    * @param props Configuration options for the FocusManager.
    * - `areas`: A mapping of all focusable areas, each with its own area focus manager.
+   * - `initialArea`: Optional area focused when this FocusManager is focused as
+   *   a composite area. Defaults to the first area.
+   * - `areaOrder` / `landmarkOrder`: Optional area orders for Tab and F6 traversal.
+   * - `wrapAreas`: Whether area traversal wraps around. Defaults to false.
+   * - `onLeaveRegion`: Optional hook called when area traversal moves past
+   *   the first or last area.
    * - `maxHistory`: Optional cap on the number of focus area entries stored in the
    *   history stack. Defaults to 20 if not provided.
+   * - `keymap` / `areaKeymaps`: Optional global and per-area keymaps used by
+   *   `handleKeyDown`, merged over the default keymap.
    *
    * The constructor initializes the internal areas registry and sets up the
    * history stack with the specified maximum size.
    */
   constructor(props: FocusManagerProps<T>) {
-    this._areas = props.areas;
+    this._areas = { ...props.areas };
+    this._initialArea = props.initialArea;
+    this._areaOrder = props.areaOrder;
+    this._landmarkOrder = props.landmarkOrder;
+    this._wrapAreas = props.wrapAreas ?? false;
+    this._onLeaveRegion = props.onLeaveRegion;
     this._maxHistory = props.maxHistory ?? 20;
+    this._keymap = props.keymap;
+    this._areaKeymaps = props.areaKeymaps;
 
-    for (const area of Object.values(this._areas)) {
-      area.parent = this;
+    for (const area of Object.keys(this._areas)) {
+      this.attachArea(area, this._areas[area]);
     }
   }
 
+  kind = "composite" as const;
+
   protected _areas;
+  protected _initialArea;
+  protected _areaOrder;
+  protected _landmarkOrder;
+  protected _wrapAreas;
+  protected _onLeaveRegion;
   protected _maxHistory;
+  protected _keymap;
+  protected _areaKeymaps;
 
   protected _stack: FocusAreaEntry<T>[] = [];
   protected _index = -1;
 
+  protected _listeners = new Set<FocusChangeListener<T>>();
+  protected _changeCount = 0;
+  protected _changeDepth = 0;
+
+  protected _operationListeners = new Set<FocusOperationListener>();
+  protected _operationDepth = 0;
+  /** The source of the last focus change of the operation in progress. */
+  protected _operationSource: FocusSource | null = null;
+
+  protected _scopes: FocusScope<T>[] = [];
+
+  protected _parent?: FocusManager<any>;
+  protected _childFocused = true;
+  /** Whether this FocusManager is the active area of its parent, see `notifyEnter`. */
+  protected _entered = false;
+
+  get parent() {
+    return this._parent;
+  }
+
+  set parent(value: FocusManager<any> | undefined) {
+    this._parent = value;
+  }
+
+  /**
+   * Returns the name of the active area, or `null` if there is none.
+   * This is the focused key of the manager when it is used as a composite area.
+   */
+  get key(): Extract<keyof T, string> | null {
+    return (this.entry?.area as Extract<keyof T, string>) ?? null;
+  }
+
   /**
    * Returns the mapping of all focusable areas managed by this FocusManager.
    * Each entry in the record corresponds to a named area and its associated
-   * ListFocusManager instance.
+   * area focus manager instance (ListFocusManager, GridFocusManager or TreeFocusManager).
    */
   get areas() {
     return this._areas;
   }
 
+  /**
+   * Returns the innermost active focus scope, or `null` if no scope is active.
+   */
+  get scope(): FocusScope<T> | null {
+    return this._scopes[this._scopes.length - 1] ?? null;
+  }
+
   /**
    * Returns the currently active focus area entry from the history stack.
    *
@@ -90,6 +188,272 @@ export class FocusManager<T extends Record<string, ListFocusManager>> {
     return this._stack[targetIndex] ?? null;
   }
 
+  /**
+   * Returns the position of the active entry in the history stack,
+   * e.g. to enable or disable back and forward buttons.
+   *
+   * @returns {FocusHistoryPosition} The index of the active entry and the number of entries.
+   */
+  getHistoryPosition(): FocusHistoryPosition {
+    return { index: this._index, length: this._stack.length };
+  }
+
+  /**
+   * Returns the chain of active areas from this FocusManager down to the
+   * innermost focused area.
+   *
+   * - Each level contributes its active area, the focused key in that area
+   *   and the entry's meta.
+   * - Composite areas contribute the name of their own active area as key,
+   *   followed by their own path while focus is inside them.
+   *
+   * @returns {FocusPathEntry[]} The focus path, or an empty array if no area is active.
+   */
+  getFocusPath(): FocusPathEntry[] {
+    const entry = this.entry;
+    if (!entry) return [];
+
+    const manager: AreaFocusManager = entry.manager;
+    const segment = {
+      area: entry.area as string,
+      key: manager.key,
+      meta: entry.meta,
+    };
+
+    if (manager.kind === "composite" && manager._childFocused) {
+      return [segment, ...manager.getFocusPath()];
+    }
+
+    return [segment];
+  }
+
+  /**
+   * Returns the name of the area focused when this FocusManager is focused
+   * as a composite area: `initialArea`, or the first area.
+   */
+  getInitialKeyOnAreaFocus(): Extract<keyof T, string> | null {
+    return (
+      ((this._initialArea ?? Object.keys(this._areas)[0]) as Extract<
+        keyof T,
+        string
+      >) ?? null
+    );
+  }
+
+  /**
+   * Returns the order of the areas visited by `focusNextArea` / `focusPreviousArea`
+   * for the given sequence, as provided by `areaOrder` / `landmarkOrder`.
+   *
+   * @param sequence The traversal sequence. Defaults to `"tab"`.
+   */
+  getAreaOrder(sequence: FocusAreaSequence = "tab"): (keyof T)[] {
+    const order =
+      sequence === "landmark"
+        ? this._landmarkOrder ?? this._areaOrder
+        : this._areaOrder;
+
+    if (typeof order === "function") {
+      return order({ manager: this });
+    }
+
+    return order ?? Object.keys(this._areas);
+  }
+
+  /**
+   * Registers an area after the FocusManager was created, e.g. when a panel mounts.
+   *
+   * - Areas declared in `T` must be registered with a manager of their declared type.
+   *   Other names accept any area focus manager.
+   * - The area is appended to the default area order.
+   * - Throws if the name is already registered, or if the manager is already
+   *   registered as an area, here or in another FocusManager.
+   *
+   * @param area The name of the area.
+   * @param manager The area focus manager of the area.
+   * @returns {() => void} A function that unregisters the area.
+   */
+  registerArea<K extends Extract<keyof T, string>>(
+    area: K,
+    manager: NonNullable<T[K]>
+  ): () => void;
+  registerArea<K extends string>(
+    area: K extends keyof T ? never : K,
+    manager: AreaFocusManager
+  ): () => void;
+  registerArea(area: string, manager: AreaFocusManager): () => void {
+    return this.operation("registerArea", [area, manager], () => {
+      if (Object.prototype.hasOwnProperty.call(this._areas, area)) {
+        throw new Error(`FocusManager: area "${area}" is already registered.`);
+      }
+
+      this.attachArea(area, manager);
+      this._areas = { ...this._areas, [area]: manager };
+
+      return () => {
+        if (this._areas[area] === manager) this.unregisterArea(area);
+      };
+    });
+  }
+
+  /**
+   * Unregisters an area, e.g. when a panel unmounts.
+   *
+   * Behavior:
+   * - The history entries of the area are dropped. If the active entry is
+   *   dropped, the closest earlier entry becomes active and its focused key
+   *   is restored, as with `go`. Subscribers are notified whenever entries
+   *   are dropped, also if the active entry stays the same.
+   * - Focus scopes no longer restore the area when they are popped.
+   * - The area manager is detached from this FocusManager, so that it can be
+   *   registered again, here or elsewhere.
+   *
+   * @param area The name of the area.
+   * @returns {boolean} False if no area with that name is registered.
+   */
+  unregisterArea(area: Extract<keyof T, string> | (string & {})): boolean {
+    return this.operation("unregisterArea", [area], () => {
+      if (!Object.prototype.hasOwnProperty.call(this._areas, area)) {
+        return false;
+      }
+
+      const manager: AreaFocusManager = this._areas[area];
+
+      this.change("unregister", "programmatic", () => {
+        const isActive = this.entry?.area === area;
+
+        this.saveEntryState();
+
+        const active = this.entry;
+        const stack: FocusAreaEntry<T>[] = [];
+
+        // the index of the closest kept entry at or before each old entry
+        const keptIndices: number[] = [];
+
+        for (const entry of this._stack) {
+          if (entry.area !== area) {
+            const last = stack[stack.length - 1];
+
+            if (last?.area !== entry.area) {
+              stack.push(entry);
+            }
+            // entries of the same area that became adjacent are merged
+            else if (last !== active) {
+              stack[stack.length - 1] = entry;
+            }
+          }
+
+          keptIndices.push(stack.length - 1);
+        }
+
+        const getKeptEntry = (i: number) => stack[Math.max(keptIndices[i], 0)];
+
+        for (const scope of this._scopes) {
+          if (!scope.entry || stack.includes(scope.entry)) continue;
+
+          const i = this._stack.indexOf(scope.entry);
+
+          if (i !== -1) {
+            scope.entry = getKeptEntry(i) ?? null;
+          }
+          //
+          else if (scope.entry.area === area) {
+            scope.entry = null;
+          }
+        }
+
+        const index = this._index;
+
+        this._stack = stack;
+        this._index =
+          index !== -1 && stack.length > 0
+            ? stack.indexOf(getKeptEntry(index))
+            : -1;
+
+        if (isActive) this.restoreEntryState();
+      });
+
+      // detached after the change, so that the area's onLeave hook still runs
+      const { [area]: _removed, ...areas } = this._areas;
+      this._areas = areas as T;
+      manager.parent = undefined;
+
+      return true;
+    });
+  }
+
+  /**
+   * Tears down this FocusManager: unregisters it from its parent, disposes
+   * composite areas, detaches all areas and drops the history, focus scopes
+   * and subscribers. Hooks and subscribers are not notified.
+   */
+  dispose() {
+    const parent = this._parent;
+
+    if (parent) {
+      const area = Object.keys(parent._areas).find(
+        (name) => parent._areas[name] === this
+      );
+      if (area != null) parent.unregisterArea(area);
+    }
+
+    for (const manager of Object.values(this._areas) as AreaFocusManager[]) {
+      manager.parent = undefined;
+
+      if (manager.kind === "composite") manager.dispose();
+    }
+
+    this._areas = {} as T;
+    this._stack = [];
+    this._index = -1;
+    this._scopes = [];
+    this._listeners.clear();
+    this._operationListeners.clear();
+  }
+
+  /**
+   * Registers a listener that is called after every focus state change.
+   *
+   * Behavior:
+   * - The listener receives a `FocusChangeEvent` describing the previous and
+   *   next entry, the previous and next focused key, the `FocusSource`,
+   *   and the kind of operation that caused the change.
+   * - Listeners are only called when the active entry, the focused key of
+   *   any area or the history stack actually changed, e.g. also when
+   *   `reconcile` replaces the key of an inactive area or `unregisterArea`
+   *   drops the entries of an inactive area. Operations that leave the state
+   *   as it was (e.g. an arrow key at a list boundary) do not notify.
+   *
+   * @param listener The function to call on each change.
+   * @returns {() => void} A function that removes the listener.
+   */
+  subscribe(listener: FocusChangeListener<T>): () => void {
+    this._listeners.add(listener);
+
+    return () => {
+      this._listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Registers a listener that is called after every public operation, e.g.
+   * `focusArea`, `focusOnArrowDown` or `reconcile`, whether or not it changed
+   * the focus state. Used by FocusTraceRecorder.
+   *
+   * Operations called by other operations, e.g. the `focusOn*` calls made by
+   * `handleKeyDown` or `goBack` calling `go`, are reported once, as the
+   * outermost operation.
+   *
+   * @param listener The function to call after each operation.
+   * @returns {() => void} A function that removes the listener.
+   */
+  onOperation(listener: FocusOperationListener): () => void {
+    this._operationListeners.add(listener);
+
+    return () => {
+      this._operationListeners.delete(listener);
+    };
+  }
+
   /**
    * Moves focus into the specified area and updates the history stack.
    *
@@ -101,35 +465,56 @@ export class FocusManager<T extends Record<string, ListFocusManager>> {
    *   of the existing entry is updated (no new history entry is pushed).
    * - If the requested area is different, a new entry is pushed onto the history
    *   stack with its associated manager, key, meta, and source.
+   * - If a focus scope is active and the area is outside of it, focus does not move.
    *
    * @template K The key type of the target area.
    * @param area The identifier of the area to focus.
    * @param source The origin of the focus change (e.g. "keyboard", "pointer", "programmatic").
    *               Defaults to "programmatic".
    * @param meta Optional metadata to associate with the area’s focus manager.
+   * @returns {boolean} False if the area is outside the active focus scope.
    */
   focusArea<K extends keyof T>(
     area: K,
     source: FocusSource = "programmatic",
     meta?: MetaFromAreaFocusManager<T[K]>
-  ) {
-    const manager = this._areas[area];
+  ): boolean {
+    return this.operation("focusArea", [area, source, meta], () => {
+      return this.change("area", source, () => {
+        if (!this.isAreaInScope(area)) return false;
 
-    if (this.entry?.area === area) {
-      this.entry.source = source;
-      this.entry.meta = meta ?? this.entry.meta;
-    }
-    //
-    else {
-      this.push({
-        area: area,
-        source,
-        meta: meta ?? null,
-        manager,
-      });
-    }
+        const manager = this._areas[area];
 
-    manager.key = manager.getInitialKeyOnAreaFocus();
+        if (this.entry?.area === area) {
+          this.entry.source = source;
+          this.entry.meta = meta ?? this.entry.meta;
+        }
+        //
+        else {
+          this.push({
+            area: area,
+            source,
+            meta: meta ?? null,
+            manager,
+          });
+        }
+
+        const areaManager: AreaFocusManager = manager;
+
+        if (areaManager.kind === "composite") {
+          const childArea = areaManager.getInitialKeyOnAreaFocus();
+          if (childArea != null) areaManager.focusArea(childArea, source);
+        }
+        //
+        else {
+          const keyed = getKeyedArea(areaManager);
+          keyed.key = keyed.getInitialKeyOnAreaFocus();
+        }
+
+        this._parent?.activateChild(this, source);
+        return true;
+      });
+    });
   }
 
   /**
@@ -143,40 +528,62 @@ export class FocusManager<T extends Record<string, ListFocusManager>> {
    *   of the existing entry is updated (no new history entry is pushed).
    * - If the requested area is different, a new entry is pushed onto the history
    *   stack with its associated manager, key, meta, and source.
+   * - If a focus scope is active and the area is outside of it, focus does not move.
    *
    * @template K The key type of the target area.
    * @param area The identifier of the area to focus.
-   * @param key The specific focus key within the area to activate.
+   * @param key The specific focus key within the area to activate
+   *            (a `{ row, col }` cell for grid areas).
    * @param source The origin of the focus change (e.g. "keyboard", "pointer", "programmatic").
    *               Defaults to "programmatic".
    * @param meta Optional metadata to associate with the area’s focus manager.
+   * @returns {boolean} False if the area is outside the active focus scope.
    */
   focusAreaKey<K extends keyof T>(
     area: K,
-    key: FocusKey,
+    key: KeyFromAreaFocusManager<T[K]>,
     source: FocusSource = "programmatic",
     meta?: MetaFromAreaFocusManager<T[K]>
-  ) {
-    const manager = this._areas[area];
+  ): boolean {
+    return this.operation("focusAreaKey", [area, key, source, meta], () => {
+      return this.change("area", source, () => {
+        if (!this.isAreaInScope(area)) return false;
 
-    manager.key = key;
+        const manager = this._areas[area];
 
-    if (this.entry?.area === area) {
-      this.entry.source = source;
-      this.entry.meta = meta ?? this.entry.meta;
-    }
-    //
-    else {
-      this.push({
-        area: area,
-        source,
-        meta: meta ?? null,
-        manager,
+        if (this.entry?.area === area) {
+          this.entry.source = source;
+          this.entry.meta = meta ?? this.entry.meta;
+        }
+        //
+        else {
+          this.push({
+            area: area,
+            source,
+            meta: meta ?? null,
+            manager,
+          });
+        }
+
+        const areaManager: AreaFocusManager = manager;
+
+        if (areaManager.kind === "composite") {
+          areaManager.focusArea(key as string, source);
+        }
+        //
+        else {
+          getKeyedArea(areaManager).key = key;
+        }
+
+        this._parent?.activateChild(this, source);
+        return true;
       });
-    }
+    });
   }
 
   protected push(area: FocusAreaEntry<T>) {
+    this.saveEntryState();
+
     this._stack = [...this._stack.slice(0, this._index + 1), area];
     this._index++;
 
@@ -188,232 +595,1080 @@ export class FocusManager<T extends Record<string, ListFocusManager>> {
   }
 
   /**
-   * Moves focus back to the previous area in the history stack.
-   *
-   * This is a convenience method that delegates to `go(-1)`.
-   * If there is no previous entry (already at the beginning of the stack),
-   * the active index remains unchanged.
+   * Assigns this FocusManager as the parent of an area manager, throwing if the
+   * manager is already registered under another name or in another FocusManager.
    */
-  goBack() {
-    this.go(-1);
+  protected attachArea(area: string, manager: AreaFocusManager) {
+    if (manager.parent && manager.parent !== this) {
+      throw new Error(
+        `FocusManager: the area manager of "${area}" is already registered in another FocusManager. Unregister it there first, or create a separate instance for each FocusManager.`
+      );
+    }
+
+    const otherArea = Object.keys(this._areas).find(
+      (name) => name !== area && this._areas[name] === manager
+    );
+
+    if (otherArea != null) {
+      throw new Error(
+        `FocusManager: the area manager of "${area}" is already registered as area "${otherArea}".`
+      );
+    }
+
+    manager.parent = this;
   }
 
   /**
-   * Moves focus within the history stack by the given delta.
-   *
-   * - A negative delta (e.g. -1) moves backward in history.
-   * - A positive delta (e.g. +1) moves forward in history.
-   * - If the computed index is out of bounds, the operation is ignored.
-   *
-   * @param delta The offset to apply to the current active index.
-   *              For example, -1 = previous area, +1 = next area.
+   * Makes a nested FocusManager the active area of this one and moves focus
+   * inside it, then does the same for this FocusManager in its own parent.
+   * Called when an area of the nested FocusManager is focused.
    */
-  go(delta: number) {
-    const newActiveIndex = this._index + delta;
+  protected activateChild(child: FocusManager<any>, source: FocusSource) {
+    const area = Object.keys(this._areas).find(
+      (name) => this._areas[name] === child
+    );
+    if (area == null) return;
+
+    if (this.entry?.area === area) {
+      this.entry.source = source;
+    }
+    //
+    else {
+      this.push({
+        area,
+        source,
+        meta: null,
+        manager: child,
+      } as FocusAreaEntry<T>);
+    }
 
-    if (newActiveIndex < 0 || newActiveIndex > this._stack.length - 1) return;
+    child._childFocused = true;
 
-    this._index = newActiveIndex;
+    this._parent?.activateChild(this, source);
   }
 
   /**
-   * Handles an "ArrowUp" keyboard action by moving focus upward
-   * within the currently active area, if that area supports vertical navigation.
-   *
-   * Behavior:
-   * - If there is no active area, the method returns immediately.
-   * - The active area's manager is queried for its orientation.
-   * - If the orientation is horizontal, no action is taken since ArrowUp
-   *   is not meaningful in that context.
-   * - Otherwise, the area's manager is instructed to move focus upward
-   *   (via `focusOnArrow(-1)` or equivalent).
-   * - Updates the current area's `source` to `"keyboard"` to indicate
-   *   that the focus change originated from a keyboard action.
+   * Records the focused key of the active entry's area, or the focus path
+   * inside a composite area, before the entry is left.
    */
-  focusOnArrowUp() {
-    if (!this.entry) return;
+  protected saveEntryState() {
+    const entry = this.entry;
+    if (!entry) return;
 
-    const areaManager = this.entry.manager;
+    const manager: AreaFocusManager = entry.manager;
 
-    if (areaManager.kind === "list") {
-      const orientation = areaManager.orientation;
+    if (manager.kind === "composite") {
+      entry.path = manager.getFocusPath();
+      return;
+    }
 
-      if (orientation === "horizontal") {
-        return;
-      }
+    const key = manager.key;
+    // the key comes from the entry's own area manager
+    const saved: { key?: AreaFocusKey | null } = entry;
+    saved.key = key;
 
-      areaManager.focusOnArrow(-1);
-      this.entry.source = "keyboard";
+    if (key == null) {
+      entry.keyIndex = -1;
+    }
+    //
+    else if (manager.kind === "list") {
+      entry.keyIndex = manager.getKeyIndex(key as FocusKey);
+    }
+    //
+    else if (manager.kind === "tree") {
+      entry.keyIndex = manager.getVisibleKeys().indexOf(key as FocusKey);
+    }
+    //
+    else if (manager.kind === "spatial") {
+      entry.keyIndex = manager.getKeys().indexOf(key as FocusKey);
+    }
+    //
+    else {
+      entry.keyIndex = manager.getRowKeys().indexOf((key as GridFocusCell).row);
     }
   }
 
   /**
-   * Handles an "ArrowDown" keyboard action by moving focus downward
-   * within the currently active area, if that area supports vertical navigation.
-   *
-   * Behavior:
-   * - If there is no active area, the method returns immediately.
-   * - The active area's manager is queried for its orientation.
-   * - If the orientation is horizontal, no action is taken since ArrowDown
-   *   is not meaningful in that context.
-   * - Otherwise, the area's manager is instructed to move focus downward
-   *   (via `focusOnArrow(1)` or equivalent).
-   * - Updates the current area's `source` to `"keyboard"` to indicate
-   *   that the focus change originated from a keyboard action.
+   * Restores the focused key recorded by `saveEntryState` in the active
+   * entry's area, or a nearby key if it no longer exists.
    */
-  focusOnArrowDown() {
-    if (!this.entry) return;
+  protected restoreEntryState() {
+    const entry = this.entry;
+    if (!entry) return;
 
-    const areaManager = this.entry.manager;
+    const manager: AreaFocusManager = entry.manager;
 
-    if (areaManager.kind === "list") {
-      const orientation = areaManager.orientation;
-
-      if (orientation === "horizontal") {
-        return;
+    if (manager.kind === "composite") {
+      if (entry.path) {
+        manager.restorePath(entry.path);
+        manager._childFocused = true;
       }
 
-      areaManager.focusOnArrow(1);
-      this.entry.source = "keyboard";
+      return;
+    }
+
+    if (entry.key === undefined) return;
+
+    if (entry.key === null) {
+      manager.key = null;
+      return;
     }
+
+    const keyed = getKeyedArea(manager);
+    keyed.key = keyed.getNearestKey(entry.key, entry.keyIndex ?? -1);
   }
 
   /**
-   * Handles an "ArrowLeft" keyboard action by moving focus leftward
-   * within the currently active area, if that area supports horizontal navigation.
-   *
-   * Behavior:
-   * - If there is no active area, the method returns immediately.
-   * - The active area's manager is queried for its orientation.
-   * - If the orientation is vertical, no action is taken since ArrowLeft
-   *   is not meaningful in that context.
-   * - Otherwise, the area's manager is instructed to move focus leftward
-   *   (via `focusOnArrow(-1)` or equivalent).
-   * - Updates the current area's `source` to `"keyboard"` to indicate
-   *   that the focus change originated from a keyboard action.
+   * Restores a focus path recorded by `getFocusPath`, focusing each area
+   * of the path without resetting the focused keys to their initial values.
    */
-  focusOnArrowLeft() {
-    if (!this.entry) return;
-
-    const areaManager = this.entry.manager;
+  protected restorePath(path: FocusPathEntry[]) {
+    this.change("history", "programmatic", () => {
+      const [segment, ...rest] = path;
+      if (!segment) return;
 
-    if (areaManager.kind === "list") {
-      const orientation = areaManager.orientation;
+      const manager: AreaFocusManager | undefined = this._areas[segment.area];
+      if (!manager) return;
 
-      if (orientation === "vertical") {
-        return;
+      if (this.entry?.area !== segment.area) {
+        this.push({
+          area: segment.area,
+          source: "programmatic",
+          meta: segment.meta,
+          manager,
+        } as FocusAreaEntry<T>);
       }
 
-      areaManager.focusOnArrow(-1);
-      this.entry.source = "keyboard";
-    }
+      if (manager.kind === "composite") {
+        if (rest.length > 0) {
+          manager.restorePath(rest);
+        }
+        //
+        else if (segment.key != null) {
+          manager.selectArea(segment.key as string, "programmatic");
+        }
+
+        manager._childFocused = rest.length > 0;
+      }
+      //
+      else {
+        getKeyedArea(manager).key = segment.key;
+      }
+    });
   }
 
   /**
-   * Handles an "ArrowRight" keyboard action by moving focus rightward
-   * within the currently active area, if that area supports horizontal navigation.
-   *
-   * Behavior:
-   * - If there is no active area, the method returns immediately.
-   * - The active area's manager is queried for its orientation.
-   * - If the orientation is vertical, no action is taken since ArrowRight
-   *   is not meaningful in that context.
-   * - Otherwise, the area's manager is instructed to move focus rightward
-   *   (via `focusOnArrow(1)` or equivalent).
-   * - Updates the current area's `source` to `"keyboard"` to indicate
-   *   that the focus change originated from a keyboard action.
+   * Runs a public operation and reports it to the operation listeners once it
+   * completed, also if it threw. Nested operations run as part of the
+   * outermost one.
    */
-  focusOnArrowRight() {
-    if (!this.entry) return;
+  protected operation<R>(
+    operation: FocusOperation,
+    args: unknown[],
+    run: () => R
+  ): R {
+    if (this._operationDepth > 0) return run();
 
-    const areaManager = this.entry.manager;
+    this._operationSource = null;
+    this._operationDepth++;
 
-    if (areaManager.kind === "list") {
-      const orientation = areaManager.orientation;
+    try {
+      return run();
+    } finally {
+      this._operationDepth--;
 
-      if (orientation === "vertical") {
-        return;
-      }
+      const event = { operation, args, source: this._operationSource };
 
-      areaManager.focusOnArrow(1);
-      this.entry.source = "keyboard";
+      for (const listener of Array.from(this._operationListeners)) {
+        listener(event);
+      }
     }
   }
 
   /**
-   * Handles a "Home" keyboard action by moving focus to the first item
-   * within the currently active area, if that area supports Home/End navigation.
+   * Runs a state-changing operation and notifies area hooks and subscribers
+   * if the active entry, the focused key of any area, the focus path inside
+   * a composite area or the history stack changed. Hooks are only called for
+   * changes of the active entry and key.
    *
-   * Behavior:
-   * - If there is no active area, the method returns immediately.
-   * - The active area's manager is instructed to move focus to the first item
-   *   (via `focusOnHomeEnd(-1)` or equivalent).
-   * - Updates the current area's `source` to `"keyboard"` to indicate
-   *   that the focus change originated from a keyboard action.
+   * Nested calls run as part of the outermost operation. Operations on a
+   * nested FocusManager run as part of an operation of its parent, so that
+   * subscribers of both are notified.
    */
-  focusOnHome() {
-    if (!this.entry) return;
+  protected change<R>(
+    type: FocusChangeType,
+    source: FocusSource,
+    apply: () => R
+  ): R {
+    if (this._changeDepth > 0) return apply();
 
-    const areaManager = this.entry.manager;
+    const parent = this._parent;
 
-    if (areaManager.kind === "list") {
-      areaManager.focusOnHomeEnd(-1);
-      this.entry.source = "keyboard";
+    if (parent && parent._changeDepth === 0) {
+      return parent.change(type, source, () =>
+        this.change(type, source, apply)
+      );
     }
-  }
 
-  /**
-   * Handles an "End" keyboard action by moving focus to the last item
-   * within the currently active area, if that area supports Home/End navigation.
-   *
-   * Behavior:
-   * - If there is no active area, the method returns immediately.
-   * - The active area's manager is instructed to move focus to the last item
-   *   (via `focusOnHomeEnd(1)` or equivalent).
-   * - Updates the current area's `source` to `"keyboard"` to indicate
-   *   that the focus change originated from a keyboard action.
-   */
-  focusOnEnd() {
-    if (!this.entry) return;
+    const prevEntry = this.entry;
+    const prevPath = this.getFocusPath();
+    const prevIndex = this._index;
+    const prevStack = [...this._stack];
+
+    const prevKeys = new Map<AreaFocusManager, AreaFocusKey | null>();
+    for (const manager of Object.values(this._areas)) {
+      prevKeys.set(manager, manager.key);
+    }
 
-    const areaManager = this.entry.manager;
+    let result: R;
 
-    if (areaManager.kind === "list") {
-      areaManager.focusOnHomeEnd(1);
-      this.entry.source = "keyboard";
+    this._changeDepth++;
+    try {
+      result = apply();
+    } finally {
+      this._changeDepth--;
     }
-  }
 
-  /**
-   * Handles a "PageUp" keyboard action by moving focus upward by a page
-   * within the currently active area, if that area supports vertical page navigation.
-   *
-   * Behavior:
-   * - If there is no active area, the method returns immediately.
-   * - The active area's manager is queried for its orientation.
-   * - If the orientation is horizontal, no action is taken since PageUp
-   *   is not meaningful in that context (future support could be added via options).
-   * - Otherwise, the area's manager is instructed to move focus upward
-   *   by one page (via `focusOnPage(-1)` or equivalent).
-   * - Updates the current area's `source` to `"keyboard"` to indicate
-   *   that the focus change originated from a keyboard action.
-   */
-  focusOnPageUp() {
-    if (!this.entry) return;
+    const entry = this.entry;
+    const path = this.getFocusPath();
+    const key = entry?.manager.key ?? null;
+    const prevKey = prevEntry ? prevKeys.get(prevEntry.manager) ?? null : null;
+    const prevAreaKey = entry ? prevKeys.get(entry.manager) ?? null : null;
+    const keyChanged = entry != null && !isSameAreaKey(prevAreaKey, key);
+
+    const areaKeyChanged = Object.values(this._areas).some(
+      (manager) =>
+        prevKeys.has(manager) &&
+        !isSameAreaKey(prevKeys.get(manager) ?? null, manager.key)
+    );
+    const historyChanged =
+      prevIndex !== this._index ||
+      prevStack.length !== this._stack.length ||
+      prevStack.some((item, i) => item !== this._stack[i]);
 
-    const areaManager = this.entry.manager;
+    if (
+      prevEntry === entry &&
+      !keyChanged &&
+      !areaKeyChanged &&
+      !historyChanged &&
+      isSameFocusPath(prevPath, path)
+    ) {
+      return result;
+    }
 
-    if (areaManager.kind === "list") {
-      const orientation = areaManager.orientation;
+    this._changeCount++;
+    this._operationSource = source;
 
-      // TODO: maybe add support for this via an option
-      if (orientation === "horizontal") {
-        return;
-      }
+    // the areas of a composite area are entered and left with it
+    if (prevEntry?.area !== entry?.area && (!this._parent || this._entered)) {
+      prevEntry?.manager.notifyLeave();
+      entry?.manager.notifyEnter();
+    }
+
+    if (entry && keyChanged) {
+      const manager: AreaFocusManager = entry.manager;
 
-      areaManager.focusOnPage(-1);
-      this.entry.source = "keyboard";
+      // each manager receives its own previous key
+      (manager.kind === "composite"
+        ? manager
+        : getKeyedArea(manager)
+      ).notifyKeyChange(prevAreaKey);
     }
+
+    const event = {
+      type,
+      source,
+      prevEntry,
+      entry,
+      prevKey,
+      key,
+      prevPath,
+      path,
+    };
+
+    for (const listener of Array.from(this._listeners)) {
+      listener(event);
+    }
+
+    return result;
+  }
+
+  /**
+   * Moves focus back to the previous area in the history stack.
+   *
+   * This is a convenience method that delegates to `go(-1)`.
+   * If there is no previous entry (already at the beginning of the stack),
+   * the active index remains unchanged.
+   */
+  goBack() {
+    return this.operation("goBack", [], () => {
+      this.go(-1);
+    });
+  }
+
+  /**
+   * Moves focus within the history stack by the given delta.
+   *
+   * - A negative delta (e.g. -1) moves backward in history.
+   * - A positive delta (e.g. +1) moves forward in history.
+   * - If the computed index is out of bounds, the operation is ignored.
+   * - The target area's focused key is restored to the key it had when its
+   *   entry was left. If that key no longer exists, the key closest to its
+   *   last known position is focused instead.
+   * - Composite areas restore the focus path they had when their entry was left.
+   * - Entries of areas outside the active focus scope are skipped and do not
+   *   count towards the delta. If there are not enough entries in scope, the
+   *   operation is ignored.
+   *
+   * @param delta The offset to apply to the current active index.
+   *              For example, -1 = previous area, +1 = next area.
+   */
+  go(delta: number) {
+    return this.operation("go", [delta], () => {
+      this.change("history", "programmatic", () => {
+        const newActiveIndex = this.getHistoryIndex(delta);
+
+        if (newActiveIndex === -1) return;
+
+        this.saveEntryState();
+
+        this._index = newActiveIndex;
+
+        this.restoreEntryState();
+      });
+    });
+  }
+
+  /**
+   * Returns a plain, JSON-serializable copy of the focus state, e.g. to
+   * persist it across page reloads.
+   *
+   * The snapshot contains the history entries and the active index, the
+   * focused key of every area, and the snapshots of composite areas.
+   * Focus scopes are not included.
+   *
+   * @param options Optional `serializeMeta` callback, applied to the meta of
+   * every entry. Meta is passed through unchanged by default.
+   * @returns {FocusSnapshot} The snapshot.
+   */
+  getSnapshot(options: FocusSnapshotOptions = {}): FocusSnapshot {
+    const serializeMeta = options.serializeMeta ?? ((meta) => meta);
+
+    const serializePath = (path: FocusPathEntry[]) =>
+      path.map((segment) => ({
+        ...segment,
+        meta: serializeMeta(segment.meta, segment.area),
+      }));
+
+    const entries = this._stack.map((entry) => {
+      const area = entry.area as string;
+
+      return {
+        area,
+        source: entry.source,
+        meta: serializeMeta(entry.meta, area),
+        ...(entry.key !== undefined
+          ? { key: copyAreaKey(entry.key), keyIndex: entry.keyIndex }
+          : {}),
+        ...(entry.path ? { path: serializePath(entry.path) } : {}),
+      };
+    });
+
+    const snapshot: FocusSnapshot = {
+      entries,
+      index: this._index,
+      keys: {},
+      children: {},
+    };
+
+    for (const area of Object.keys(this._areas)) {
+      const manager: AreaFocusManager = this._areas[area];
+
+      if (manager.kind === "composite") {
+        snapshot.children[area] = manager.getSnapshot(options);
+      }
+      //
+      else {
+        snapshot.keys[area] = copyAreaKey(manager.key);
+      }
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Restores a snapshot returned by `getSnapshot`.
+   *
+   * Behavior:
+   * - Entries of areas that no longer exist are dropped. If the active entry is
+   *   dropped, the closest earlier entry becomes active.
+   * - Keys that are no longer returned by the area (e.g. `getKeys()`) are
+   *   dropped; the active area then falls back to `getInitialKeyOnAreaFocus`.
+   * - Composite areas restore their own snapshots.
+   *
+   * @param snapshot The snapshot to restore.
+   * @param options Optional `deserializeMeta` callback, the reverse of
+   * `serializeMeta`. Meta is passed through unchanged by default.
+   */
+  restoreSnapshot(snapshot: FocusSnapshot, options: FocusRestoreOptions = {}) {
+    return this.operation("restoreSnapshot", [snapshot, options], () => {
+      this.change("history", "programmatic", () => {
+        const deserializeMeta = options.deserializeMeta ?? ((meta) => meta);
+
+        const deserializePath = (path: FocusPathEntry[]) =>
+          path.map((segment) => ({
+            ...segment,
+            meta: deserializeMeta(segment.meta, segment.area),
+          }));
+
+        for (const area of Object.keys(this._areas)) {
+          const manager: AreaFocusManager = this._areas[area];
+
+          if (manager.kind === "composite") {
+            const childSnapshot = snapshot.children[area];
+            if (childSnapshot) manager.restoreSnapshot(childSnapshot, options);
+          }
+          //
+          else {
+            const key = snapshot.keys[area] ?? null;
+
+            const keyed = getKeyedArea(manager);
+            keyed.key = key != null && keyed.hasKey(key) ? key : null;
+          }
+        }
+
+        const stack: FocusAreaEntry<T>[] = [];
+        let index = -1;
+
+        snapshot.entries.forEach((item, i) => {
+          if (!Object.prototype.hasOwnProperty.call(this._areas, item.area)) {
+            return;
+          }
+
+          if (i <= snapshot.index) index = stack.length;
+
+          stack.push({
+            area: item.area,
+            source: item.source,
+            meta: deserializeMeta(item.meta, item.area),
+            manager: this._areas[item.area],
+            ...(item.key !== undefined
+              ? { key: item.key, keyIndex: item.keyIndex }
+              : {}),
+            ...(item.path ? { path: deserializePath(item.path) } : {}),
+          } as FocusAreaEntry<T>);
+        });
+
+        if (index === -1 && snapshot.index !== -1 && stack.length > 0) {
+          index = 0;
+        }
+
+        const overflow = Math.max(0, stack.length - this._maxHistory);
+
+        this._stack = stack.slice(overflow);
+        this._index = Math.max(
+          index - overflow,
+          this._stack.length > 0 ? 0 : -1
+        );
+
+        const manager: AreaFocusManager | undefined = this.entry?.manager;
+
+        if (manager && manager.kind !== "composite" && manager.key == null) {
+          const keyed = getKeyedArea(manager);
+          keyed.key = keyed.getInitialKeyOnAreaFocus();
+        }
+      });
+    });
+  }
+
+  /**
+   * Replaces focused keys that no longer exist in list areas, including the
+   * list areas of composite areas, e.g. after rows were deleted or filtered out.
+   * See `ListFocusManager.reconcile`.
+   *
+   * Subscribers are notified if any focused key was replaced, hooks only if
+   * the focused key of the active area was replaced.
+   *
+   * @returns {boolean} True if any focused key was replaced.
+   */
+  reconcile(): boolean {
+    return this.operation("reconcile", [], () => {
+      return this.change("reconcile", "programmatic", () => {
+        let reconciled = false;
+
+        for (const area of Object.keys(this._areas)) {
+          const manager: AreaFocusManager = this._areas[area];
+
+          if (manager.kind === "list" || manager.kind === "composite") {
+            reconciled = manager.reconcile() || reconciled;
+          }
+        }
+
+        return reconciled;
+      });
+    });
+  }
+
+  /**
+   * Runs an assignment of the focused key of one of the areas, so that hooks
+   * and subscribers are notified of it as a `"key"` change. Area managers
+   * call this when their `key` is set outside of a FocusManager operation.
+   *
+   * @param apply The function assigning the key.
+   */
+  updateAreaKey(apply: () => void) {
+    this.change("key", "programmatic", apply);
+  }
+
+  /**
+   * Limits focus to a set of areas, e.g. while a dialog or popover is open,
+   * and focuses the scope's initial area.
+   *
+   * Behavior:
+   * - While the scope is active, `focusArea` / `focusAreaKey` calls for areas
+   *   outside of it are refused, history navigation skips their entries and
+   *   area traversal wraps around within the scope.
+   * - The active entry and focus path are recorded, and restored by `popScope`.
+   * - Scopes nest: pushing a scope while another one is active limits focus
+   *   to the new scope until it is popped.
+   *
+   * @param options The areas of the scope and its initial area.
+   */
+  pushScope(options: FocusScopeOptions<T>) {
+    return this.operation("pushScope", [options], () => {
+      this.change("area", "programmatic", () => {
+        this._scopes.push({
+          ...options,
+          entry: this.entry,
+          path: this.getFocusPath(),
+        });
+
+        const initialArea = options.initialArea ?? options.areas[0];
+        if (initialArea != null) this.focusArea(initialArea);
+      });
+    });
+  }
+
+  /**
+   * Removes the innermost focus scope and restores the entry, and the
+   * focused keys along the focus path, that were active when it was pushed.
+   * History entries added while the scope was active are discarded.
+   *
+   * @returns {boolean} False if no scope is active.
+   */
+  popScope(): boolean {
+    return this.operation("popScope", [], () => {
+      return this.change("area", "programmatic", () => {
+        const scope = this._scopes.pop();
+        if (!scope) return false;
+
+        const index = scope.entry ? this._stack.indexOf(scope.entry) : -1;
+
+        if (scope.entry && index === -1) {
+          this.push(scope.entry);
+        }
+        //
+        else {
+          this._stack = this._stack.slice(0, index + 1);
+          this._index = index;
+        }
+
+        this.restorePath(scope.path);
+        return true;
+      });
+    });
+  }
+
+  /**
+   * Moves focus to the next area of a traversal sequence,
+   * typically triggered by Tab (`"tab"`) or F6 (`"landmark"`).
+   *
+   * Behavior:
+   * - Areas are visited in the order returned by `getAreaOrder(sequence)`.
+   *   Areas without any keys are skipped.
+   * - The next area is entered through `focusArea`, i.e. at the key returned
+   *   by its `getInitialKeyOnAreaFocus`.
+   * - Inside a nested FocusManager, traversal continues in the FocusManager
+   *   containing it once the nested areas are exhausted.
+   * - While a focus scope is active, only its areas are visited and traversal
+   *   always wraps around.
+   * - Past the last area, traversal wraps around if `wrapAreas` is set.
+   *   Otherwise focus does not move, `onLeaveRegion` is called and the method
+   *   returns false, so that the browser can move focus out of the region.
+   *
+   * @param sequence The traversal sequence. Defaults to `"tab"`.
+   * @param source The origin of the focus change. Defaults to "keyboard".
+   * @returns {boolean} True if focus moved to another area.
+   */
+  focusNextArea(
+    sequence: FocusAreaSequence = "tab",
+    source: FocusSource = "keyboard"
+  ): boolean {
+    return this.operation("focusNextArea", [sequence, source], () => {
+      return this.focusOnSequence(1, sequence, source);
+    });
+  }
+
+  /**
+   * Moves focus to the previous area of a traversal sequence,
+   * typically triggered by Shift+Tab or Shift+F6.
+   * The reverse of `focusNextArea`.
+   *
+   * @param sequence The traversal sequence. Defaults to `"tab"`.
+   * @param source The origin of the focus change. Defaults to "keyboard".
+   * @returns {boolean} True if focus moved to another area.
+   */
+  focusPreviousArea(
+    sequence: FocusAreaSequence = "tab",
+    source: FocusSource = "keyboard"
+  ): boolean {
+    return this.operation("focusPreviousArea", [sequence, source], () => {
+      return this.focusOnSequence(-1, sequence, source);
+    });
+  }
+
+  /**
+   * Moves focus one nesting level up, typically triggered by the Escape key.
+   *
+   * Behavior:
+   * - If focus is in an area of a nested FocusManager, that FocusManager
+   *   becomes focused at its own level: arrow keys, Home and End move between
+   *   its areas, which keep their focused keys.
+   * - If a nested FocusManager is already focused at its own level,
+   *   the FocusManager containing it becomes focused at its own level.
+   * - The root FocusManager has no parent level; if it would be next,
+   *   the method returns false.
+   *
+   * @param source The origin of the focus change. Defaults to "programmatic".
+   * @returns {boolean} True if focus moved up a level.
+   */
+  focusParentArea(source: FocusSource = "programmatic"): boolean {
+    return this.operation("focusParentArea", [source], () => {
+      return this.change("area", source, () => {
+        let manager = this.getActiveManager();
+
+        if (!manager._childFocused) {
+          manager = manager._parent ?? manager;
+        }
+
+        if (!manager._parent || !manager._childFocused) return false;
+
+        manager._childFocused = false;
+        return true;
+      });
+    });
+  }
+
+  /**
+   * Moves focus one nesting level down, into the active area of a nested
+   * FocusManager that is focused at its own level, typically triggered by
+   * the Enter key. The reverse of `focusParentArea`.
+   *
+   * @param source The origin of the focus change. Defaults to "programmatic".
+   * @returns {boolean} True if focus moved down a level.
+   */
+  focusChildArea(source: FocusSource = "programmatic"): boolean {
+    return this.operation("focusChildArea", [source], () => {
+      return this.change("area", source, () => {
+        const manager = this.getActiveManager();
+
+        if (manager._childFocused || !manager.entry) return false;
+
+        manager._childFocused = true;
+        return true;
+      });
+    });
+  }
+
+  /**
+   * Handles an "ArrowUp" keyboard action by moving focus upward
+   * within the currently active area, if that area supports vertical navigation.
+   *
+   * Behavior:
+   * - If there is no active area, the method returns immediately.
+   * - List areas resolve the arrow against their orientation, text direction
+   *   and writing mode. If the arrow is perpendicular to the list, no action
+   *   is taken since ArrowUp is not meaningful in that context.
+   * - Otherwise, the area's manager is instructed to move focus upward
+   *   (via `focusOnArrowKey`). Lists with a flow layout move by one item
+   *   along the inline axis and by one row along the block axis.
+   * - Grid areas always move focus upward by one row, and tree areas move
+   *   to the previous visible node.
+   * - Spatial areas move to the nearest item above on screen, or to their
+   *   exit area at the edge (see `SpatialFocusManager`). Without an exit
+   *   area, the method returns false at the edge.
+   * - Updates the current area's `source` to `"keyboard"` to indicate
+   *   that the focus change originated from a keyboard action.
+   *
+   * @returns {boolean} True if the active area handled the action,
+   * even if focus did not move (e.g. at a boundary).
+   */
+  focusOnArrowUp(): boolean {
+    return this.operation("focusOnArrowUp", [], () => {
+      return this.change("key", "keyboard", () => {
+        if (!this.entry) return false;
+
+        const areaManager = this.entry.manager;
+
+        if (areaManager.kind === "list") {
+          if (!areaManager.focusOnArrowKey("ArrowUp")) {
+            return false;
+          }
+
+          this.entry.source = "keyboard";
+          return true;
+        }
+        //
+        else if (areaManager.kind === "grid" || areaManager.kind === "tree") {
+          areaManager.focusOnArrow("vertical", -1);
+          this.entry.source = "keyboard";
+          return true;
+        }
+        //
+        else if (areaManager.kind === "spatial") {
+          return this.focusOnSpatialDirection(areaManager, "up");
+        }
+        //
+        else if (areaManager.kind === "composite") {
+          return areaManager._childFocused
+            ? areaManager.focusOnArrowUp()
+            : areaManager.focusOnAdjacentArea(-1);
+        }
+
+        return false;
+      });
+    });
+  }
+
+  /**
+   * Handles an "ArrowDown" keyboard action by moving focus downward
+   * within the currently active area, if that area supports vertical navigation.
+   *
+   * Behavior:
+   * - If there is no active area, the method returns immediately.
+   * - List areas resolve the arrow against their orientation, text direction
+   *   and writing mode. If the arrow is perpendicular to the list, no action
+   *   is taken since ArrowDown is not meaningful in that context.
+   * - Otherwise, the area's manager is instructed to move focus downward
+   *   (via `focusOnArrowKey`). Lists with a flow layout move by one item
+   *   along the inline axis and by one row along the block axis.
+   * - Grid areas always move focus downward by one row, and tree areas move
+   *   to the next visible node.
+   * - Spatial areas move to the nearest item below on screen, or to their
+   *   exit area at the edge (see `SpatialFocusManager`). Without an exit
+   *   area, the method returns false at the edge.
+   * - Updates the current area's `source` to `"keyboard"` to indicate
+   *   that the focus change originated from a keyboard action.
+   *
+   * @returns {boolean} True if the active area handled the action,
+   * even if focus did not move (e.g. at a boundary).
+   */
+  focusOnArrowDown(): boolean {
+    return this.operation("focusOnArrowDown", [], () => {
+      return this.change("key", "keyboard", () => {
+        if (!this.entry) return false;
+
+        const areaManager = this.entry.manager;
+
+        if (areaManager.kind === "list") {
+          if (!areaManager.focusOnArrowKey("ArrowDown")) {
+            return false;
+          }
+
+          this.entry.source = "keyboard";
+          return true;
+        }
+        //
+        else if (areaManager.kind === "grid" || areaManager.kind === "tree") {
+          areaManager.focusOnArrow("vertical", 1);
+          this.entry.source = "keyboard";
+          return true;
+        }
+        //
+        else if (areaManager.kind === "spatial") {
+          return this.focusOnSpatialDirection(areaManager, "down");
+        }
+        //
+        else if (areaManager.kind === "composite") {
+          return areaManager._childFocused
+            ? areaManager.focusOnArrowDown()
+            : areaManager.focusOnAdjacentArea(1);
+        }
+
+        return false;
+      });
+    });
+  }
+
+  /**
+   * Handles an "ArrowLeft" keyboard action by moving focus leftward
+   * within the currently active area, if that area supports horizontal navigation.
+   *
+   * Behavior:
+   * - If there is no active area, the method returns immediately.
+   * - List areas resolve the arrow against their orientation, text direction
+   *   and writing mode. If the arrow is perpendicular to the list, no action
+   *   is taken since ArrowLeft is not meaningful in that context.
+   * - Otherwise, the area's manager is instructed to move focus leftward
+   *   (via `focusOnArrowKey`). Lists with a flow layout move by one item
+   *   along the inline axis and by one row along the block axis.
+   * - Grid areas move focus leftward by one column. Tree areas collapse the
+   *   focused node, or move to its parent if already collapsed. In `"rtl"`
+   *   areas ArrowLeft moves forward instead, i.e. it behaves like ArrowRight.
+   * - Spatial areas move to the nearest item to the left on screen, or to their
+   *   exit area at the edge (see `SpatialFocusManager`). Without an exit
+   *   area, the method returns false at the edge.
+   * - Updates the current area's `source` to `"keyboard"` to indicate
+   *   that the focus change originated from a keyboard action.
+   *
+   * @returns {boolean} True if the active area handled the action,
+   * even if focus did not move (e.g. at a boundary).
+   */
+  focusOnArrowLeft(): boolean {
+    return this.operation("focusOnArrowLeft", [], () => {
+      return this.change("key", "keyboard", () => {
+        if (!this.entry) return false;
+
+        const areaManager = this.entry.manager;
+
+        if (areaManager.kind === "list") {
+          if (!areaManager.focusOnArrowKey("ArrowLeft")) {
+            return false;
+          }
+
+          this.entry.source = "keyboard";
+          return true;
+        }
+        //
+        else if (areaManager.kind === "grid" || areaManager.kind === "tree") {
+          const delta = areaManager.direction === "rtl" ? 1 : -1;
+
+          areaManager.focusOnArrow("horizontal", delta);
+          this.entry.source = "keyboard";
+          return true;
+        }
+        //
+        else if (areaManager.kind === "spatial") {
+          return this.focusOnSpatialDirection(areaManager, "left");
+        }
+        //
+        else if (areaManager.kind === "composite") {
+          return areaManager._childFocused
+            ? areaManager.focusOnArrowLeft()
+            : areaManager.focusOnAdjacentArea(-1);
+        }
+
+        return false;
+      });
+    });
+  }
+
+  /**
+   * Handles an "ArrowRight" keyboard action by moving focus rightward
+   * within the currently active area, if that area supports horizontal navigation.
+   *
+   * Behavior:
+   * - If there is no active area, the method returns immediately.
+   * - List areas resolve the arrow against their orientation, text direction
+   *   and writing mode. If the arrow is perpendicular to the list, no action
+   *   is taken since ArrowRight is not meaningful in that context.
+   * - Otherwise, the area's manager is instructed to move focus rightward
+   *   (via `focusOnArrowKey`). Lists with a flow layout move by one item
+   *   along the inline axis and by one row along the block axis.
+   * - Grid areas move focus rightward by one column. Tree areas expand the
+   *   focused node, or move to its first child if already expanded. In `"rtl"`
+   *   areas ArrowRight moves backward instead, i.e. it behaves like ArrowLeft.
+   * - Spatial areas move to the nearest item to the right on screen, or to their
+   *   exit area at the edge (see `SpatialFocusManager`). Without an exit
+   *   area, the method returns false at the edge.
+   * - Updates the current area's `source` to `"keyboard"` to indicate
+   *   that the focus change originated from a keyboard action.
+   *
+   * @returns {boolean} True if the active area handled the action,
+   * even if focus did not move (e.g. at a boundary).
+   */
+  focusOnArrowRight(): boolean {
+    return this.operation("focusOnArrowRight", [], () => {
+      return this.change("key", "keyboard", () => {
+        if (!this.entry) return false;
+
+        const areaManager = this.entry.manager;
+
+        if (areaManager.kind === "list") {
+          if (!areaManager.focusOnArrowKey("ArrowRight")) {
+            return false;
+          }
+
+          this.entry.source = "keyboard";
+          return true;
+        }
+        //
+        else if (areaManager.kind === "grid" || areaManager.kind === "tree") {
+          const delta = areaManager.direction === "rtl" ? -1 : 1;
+
+          areaManager.focusOnArrow("horizontal", delta);
+          this.entry.source = "keyboard";
+          return true;
+        }
+        //
+        else if (areaManager.kind === "spatial") {
+          return this.focusOnSpatialDirection(areaManager, "right");
+        }
+        //
+        else if (areaManager.kind === "composite") {
+          return areaManager._childFocused
+            ? areaManager.focusOnArrowRight()
+            : areaManager.focusOnAdjacentArea(1);
+        }
+
+        return false;
+      });
+    });
+  }
+
+  /**
+   * Handles a "Home" keyboard action by moving focus to the first item
+   * within the currently active area, if that area supports Home/End navigation.
+   *
+   * Behavior:
+   * - If there is no active area, the method returns immediately.
+   * - The active area's manager is instructed to move focus to the first item
+   *   (via `focusOnHomeEnd(-1)` or equivalent). Grid areas move to the first
+   *   cell of the focused row, or of the whole grid when `ctrlKey` is set,
+   *   and so do lists with a flow layout.
+   * - Updates the current area's `source` to `"keyboard"` to indicate
+   *   that the focus change originated from a keyboard action.
+   *
+   * @param ctrlKey Whether Ctrl was held (Ctrl+Home), which widens the
+   *                movement to the whole area where that is meaningful.
+   * @returns {boolean} True if the active area handled the action,
+   * even if focus did not move.
+   */
+  focusOnHome(ctrlKey = false): boolean {
+    return this.operation("focusOnHome", [ctrlKey], () => {
+      return this.change("key", "keyboard", () => {
+        if (!this.entry) return false;
+
+        const areaManager = this.entry.manager;
+
+        if (areaManager.kind === "tree") {
+          areaManager.focusOnHomeEnd(-1);
+          this.entry.source = "keyboard";
+          return true;
+        }
+        //
+        else if (areaManager.kind === "list" || areaManager.kind === "grid") {
+          areaManager.focusOnHomeEnd(-1, ctrlKey);
+          this.entry.source = "keyboard";
+          return true;
+        }
+        //
+        else if (areaManager.kind === "composite") {
+          return areaManager._childFocused
+            ? areaManager.focusOnHome(ctrlKey)
+            : areaManager.focusOnEdgeArea(-1);
+        }
+
+        return false;
+      });
+    });
+  }
+
+  /**
+   * Handles an "End" keyboard action by moving focus to the last item
+   * within the currently active area, if that area supports Home/End navigation.
+   *
+   * Behavior:
+   * - If there is no active area, the method returns immediately.
+   * - The active area's manager is instructed to move focus to the last item
+   *   (via `focusOnHomeEnd(1)` or equivalent). Grid areas move to the last
+   *   cell of the focused row, or of the whole grid when `ctrlKey` is set,
+   *   and so do lists with a flow layout.
+   * - Updates the current area's `source` to `"keyboard"` to indicate
+   *   that the focus change originated from a keyboard action.
+   *
+   * @param ctrlKey Whether Ctrl was held (Ctrl+End), which widens the
+   *                movement to the whole area where that is meaningful.
+   * @returns {boolean} True if the active area handled the action,
+   * even if focus did not move.
+   */
+  focusOnEnd(ctrlKey = false): boolean {
+    return this.operation("focusOnEnd", [ctrlKey], () => {
+      return this.change("key", "keyboard", () => {
+        if (!this.entry) return false;
+
+        const areaManager = this.entry.manager;
+
+        if (areaManager.kind === "tree") {
+          areaManager.focusOnHomeEnd(1);
+          this.entry.source = "keyboard";
+          return true;
+        }
+        //
+        else if (areaManager.kind === "list" || areaManager.kind === "grid") {
+          areaManager.focusOnHomeEnd(1, ctrlKey);
+          this.entry.source = "keyboard";
+          return true;
+        }
+        //
+        else if (areaManager.kind === "composite") {
+          return areaManager._childFocused
+            ? areaManager.focusOnEnd(ctrlKey)
+            : areaManager.focusOnEdgeArea(1);
+        }
+
+        return false;
+      });
+    });
+  }
+
+  /**
+   * Handles a "PageUp" keyboard action by moving focus upward by a page
+   * within the currently active area, if that area supports vertical page navigation.
+   *
+   * Behavior:
+   * - If there is no active area, the method returns immediately.
+   * - List areas are queried for their orientation. Horizontal lists only
+   *   handle PageUp if their `horizontalPaging` option is enabled.
+   * - Otherwise, the area's manager is instructed to move focus upward
+   *   by one page (via `focusOnPage(-1)` or equivalent). Grid areas page by
+   *   visible rows, tree areas by visible nodes.
+   * - Updates the current area's `source` to `"keyboard"` to indicate
+   *   that the focus change originated from a keyboard action.
+   *
+   * @returns {boolean} True if the active area handled the action,
+   * even if focus did not move (e.g. at a boundary).
+   */
+  focusOnPageUp(): boolean {
+    return this.operation("focusOnPageUp", [], () => {
+      return this.change("key", "keyboard", () => {
+        if (!this.entry) return false;
+
+        const areaManager = this.entry.manager;
+
+        if (areaManager.kind === "list") {
+          if (!areaManager.canPage()) {
+            return false;
+          }
+
+          areaManager.focusOnPage(-1);
+          this.entry.source = "keyboard";
+          return true;
+        }
+        //
+        else if (areaManager.kind === "grid" || areaManager.kind === "tree") {
+          areaManager.focusOnPage(-1);
+          this.entry.source = "keyboard";
+          return true;
+        }
+        //
+        else if (areaManager.kind === "composite") {
+          return areaManager._childFocused && areaManager.focusOnPageUp();
+        }
+
+        return false;
+      });
+    });
   }
 
   /**
@@ -422,32 +1677,608 @@ export class FocusManager<T extends Record<string, ListFocusManager>> {
    *
    * Behavior:
    * - If there is no active area, the method returns immediately.
-   * - The active area's manager is queried for its orientation.
-   * - If the orientation is horizontal, no action is taken since PageDown
-   *   is not meaningful in that context (future support could be added via options).
+   * - List areas are queried for their orientation. Horizontal lists only
+   *   handle PageDown if their `horizontalPaging` option is enabled.
    * - Otherwise, the area's manager is instructed to move focus downward
-   *   by one page (via `focusOnPage(1)` or equivalent).
+   *   by one page (via `focusOnPage(1)` or equivalent). Grid areas page by
+   *   visible rows, tree areas by visible nodes.
    * - Updates the current area's `source` to `"keyboard"` to indicate
    *   that the focus change originated from a keyboard action.
+   *
+   * @returns {boolean} True if the active area handled the action,
+   * even if focus did not move (e.g. at a boundary).
+   */
+  focusOnPageDown(): boolean {
+    return this.operation("focusOnPageDown", [], () => {
+      return this.change("key", "keyboard", () => {
+        if (!this.entry) return false;
+
+        const areaManager = this.entry.manager;
+
+        if (areaManager.kind === "list") {
+          if (!areaManager.canPage()) {
+            return false;
+          }
+
+          areaManager.focusOnPage(1);
+          this.entry.source = "keyboard";
+          return true;
+        }
+        //
+        else if (areaManager.kind === "grid" || areaManager.kind === "tree") {
+          areaManager.focusOnPage(1);
+          this.entry.source = "keyboard";
+          return true;
+        }
+        //
+        else if (areaManager.kind === "composite") {
+          return areaManager._childFocused && areaManager.focusOnPageDown();
+        }
+
+        return false;
+      });
+    });
+  }
+
+  /**
+   * Handles a printable character key press by moving focus to the next item
+   * whose label starts with the typed characters (type-ahead navigation).
+   *
+   * Behavior:
+   * - If there is no active area, the method returns immediately.
+   * - List areas with a `getLabel` callback search their items, building up
+   *   a search buffer across quickly typed characters
+   *   (via `focusOnCharacter(char)` or equivalent).
+   * - Updates the current area's `source` to `"keyboard"` to indicate
+   *   that the focus change originated from a keyboard action.
+   *
+   * @param char The typed character, usually `KeyboardEvent.key`.
+   * @returns {boolean} True if the active area handled the action,
+   * even if focus did not move.
+   */
+  focusOnCharacter(char: string): boolean {
+    return this.operation("focusOnCharacter", [char], () => {
+      return this.change("key", "keyboard", () => {
+        if (!this.entry) return false;
+
+        const areaManager = this.entry.manager;
+
+        if (areaManager.kind === "list") {
+          if (!areaManager.focusOnCharacter(char)) return false;
+
+          this.entry.source = "keyboard";
+          return true;
+        }
+        //
+        else if (areaManager.kind === "composite") {
+          return (
+            areaManager._childFocused && areaManager.focusOnCharacter(char)
+          );
+        }
+
+        return false;
+      });
+    });
+  }
+
+  /**
+   * Handles a "*" keyboard action in a tree area by requesting expansion
+   * of all siblings of the focused node, as described by the WAI-ARIA tree pattern.
+   *
+   * Behavior:
+   * - If there is no active area, or the active area is not a tree,
+   *   the method returns immediately.
+   * - Focus does not move; the tree's `onRequestExpand` callback is
+   *   called for each collapsed sibling that has children.
+   * - Updates the current area's `source` to `"keyboard"`.
+   *
+   * @returns {boolean} True if the active area handled the action,
+   * even if focus did not move (e.g. at a boundary).
+   */
+  expandSiblings(): boolean {
+    return this.operation("expandSiblings", [], () => {
+      return this.change("key", "keyboard", () => {
+        if (!this.entry) return false;
+
+        const areaManager = this.entry.manager;
+
+        if (areaManager.kind === "tree") {
+          areaManager.expandSiblings();
+          this.entry.source = "keyboard";
+          return true;
+        }
+        //
+        else if (areaManager.kind === "composite") {
+          return areaManager._childFocused && areaManager.expandSiblings();
+        }
+
+        return false;
+      });
+    });
+  }
+
+  /**
+   * Handles a Ctrl+Space keyboard action by toggling the selection of the
+   * focused key, in a list area that has a `selection`.
+   *
+   * Behavior:
+   * - If there is no active area, the active area is not a list with a
+   *   selection, or the list has no focused key, the method returns false.
+   * - Focus does not move; the focused key becomes the selection anchor.
+   *
+   * @returns {boolean} True if the active area handled the action.
+   */
+  toggleSelection(): boolean {
+    return this.operation("toggleSelection", [], () => {
+      const list = this.getActiveList();
+      if (!list?.selection || list.key == null) return false;
+
+      list.selection.toggle(list.key);
+      return true;
+    });
+  }
+
+  /**
+   * Handles a Ctrl+A keyboard action by selecting all enabled keys, in a list
+   * area whose `selection` allows multiple keys.
+   *
+   * @returns {boolean} True if the active area handled the action.
+   */
+  selectAll(): boolean {
+    return this.operation("selectAll", [], () => {
+      const list = this.getActiveList();
+      if (!list?.selection || list.selection.mode === "single") return false;
+
+      list.selection.selectAll();
+      return true;
+    });
+  }
+
+  /**
+   * Handles a `keydown` event by mapping it to one of the `focusOn*` methods
+   * through the keymaps.
+   *
+   * Behavior:
+   * - Events that are part of an IME composition are ignored.
+   * - Events from editable targets (text inputs, textareas, selects and
+   *   contenteditable elements) are ignored unless `allowEditableTargets` is set.
+   * - The key binding is looked up in the active area's keymap, then the global
+   *   keymap, then the default keymap. Unbound printable characters are used
+   *   for type-ahead navigation.
+   * - The matching `focusOn*` method is called on this FocusManager.
+   *
+   * @param event The keyboard event, or any object with the same key and modifier fields.
+   * @param options Optional flags, see `FocusKeyDownOptions`.
+   * @returns {FocusKeyDownResult} The resolved action, whether it was handled
+   * (call `preventDefault()` if so) and whether focus changed.
+   */
+  handleKeyDown(
+    event: FocusKeyboardEvent,
+    options: FocusKeyDownOptions = {}
+  ): FocusKeyDownResult {
+    const ignored = { action: null, handled: false, changed: false };
+
+    if (event.isComposing || event.keyCode === 229) return ignored;
+
+    if (!options.allowEditableTargets && isEditableTarget(event.target)) {
+      return ignored;
+    }
+
+    const area = this.entry?.area;
+    const action = resolveFocusAction(event, [
+      area != null ? this._areaKeymaps?.[area] : undefined,
+      this._keymap,
+      defaultKeymap,
+    ]);
+
+    if (!action) return ignored;
+
+    const changeCount = this._changeCount;
+    const handled = this.runFocusAction(action, event.key);
+
+    return { action, handled, changed: this._changeCount !== changeCount };
+  }
+
+  protected runFocusAction(action: FocusAction, key: string): boolean {
+    switch (action) {
+      case "arrowUp":
+        return this.focusOnArrowUp();
+      case "arrowDown":
+        return this.focusOnArrowDown();
+      case "arrowLeft":
+        return this.focusOnArrowLeft();
+      case "arrowRight":
+        return this.focusOnArrowRight();
+      case "home":
+        return this.focusOnHome();
+      case "end":
+        return this.focusOnEnd();
+      case "ctrlHome":
+        return this.focusOnHome(true);
+      case "ctrlEnd":
+        return this.focusOnEnd(true);
+      case "pageUp":
+        return this.focusOnPageUp();
+      case "pageDown":
+        return this.focusOnPageDown();
+      case "expandSiblings":
+        return this.expandSiblings();
+      case "parentArea":
+        return this.focusParentArea("keyboard");
+      case "childArea":
+        return this.focusChildArea("keyboard");
+      case "nextArea":
+        return this.focusNextArea("tab");
+      case "previousArea":
+        return this.focusPreviousArea("tab");
+      case "nextLandmark":
+        return this.focusNextArea("landmark");
+      case "previousLandmark":
+        return this.focusPreviousArea("landmark");
+      case "selectArrowUp":
+        return this.extendSelection(() => this.focusOnArrowUp());
+      case "selectArrowDown":
+        return this.extendSelection(() => this.focusOnArrowDown());
+      case "selectArrowLeft":
+        return this.extendSelection(() => this.focusOnArrowLeft());
+      case "selectArrowRight":
+        return this.extendSelection(() => this.focusOnArrowRight());
+      case "selectHome":
+        return this.extendSelection(() => this.focusOnHome());
+      case "selectEnd":
+        return this.extendSelection(() => this.focusOnEnd());
+      case "selectPageUp":
+        return this.extendSelection(() => this.focusOnPageUp());
+      case "selectPageDown":
+        return this.extendSelection(() => this.focusOnPageDown());
+      case "toggleSelection":
+        return this.toggleSelection();
+      case "selectAll":
+        return this.selectAll();
+      case "character":
+        return this.focusOnCharacter(key);
+    }
+  }
+
+  /**
+   * Moves focus with one of the `focusOn*` methods, then selects the keys
+   * between the selection anchor (or the previously focused key) and the
+   * newly focused key. In `"single"` selection mode focus only moves.
+   *
+   * @returns {boolean} False if the active area is not a list with a selection.
+   */
+  protected extendSelection(move: () => boolean): boolean {
+    return this.change("key", "keyboard", () => {
+      const list = this.getActiveList();
+      const selection = list?.selection;
+
+      if (!list || !selection) return false;
+      if (selection.mode === "single") return move();
+
+      const anchor = selection.anchor ?? list.key;
+
+      if (!move()) return false;
+
+      const from = anchor ?? list.key;
+
+      if (from != null && list.key != null) {
+        selection.selectRange(from, list.key);
+      }
+
+      return true;
+    });
+  }
+
+  protected focusOnSequence(
+    delta: -1 | 1,
+    sequence: FocusAreaSequence,
+    source: FocusSource
+  ): boolean {
+    return this.change("area", source, () => {
+      let manager: FocusManager<any> | undefined = this.getActiveManager();
+
+      while (manager) {
+        if (manager.focusOnSequenceStep(delta, sequence, source)) return true;
+        if (manager === this) break;
+
+        manager = manager._parent;
+      }
+
+      this._onLeaveRegion?.({ direction: delta, sequence });
+      return false;
+    });
+  }
+
+  /**
+   * Moves to the adjacent non-empty area of a traversal sequence within
+   * this FocusManager only.
+   *
+   * @returns {boolean} True if focus moved to another area.
    */
-  focusOnPageDown() {
-    if (!this.entry) return;
+  protected focusOnSequenceStep(
+    delta: -1 | 1,
+    sequence: FocusAreaSequence,
+    source: FocusSource
+  ): boolean {
+    const order = this.getAreaOrder(sequence).filter((area) =>
+      this.isAreaInScope(area)
+    );
+    const orderLen = order.length;
+
+    const currentArea = this.entry?.area;
+    let index = currentArea != null ? order.indexOf(currentArea) : -1;
+
+    if (index === -1) {
+      index = delta === 1 ? -1 : orderLen;
+    }
 
-    const areaManager = this.entry.manager;
+    for (let step = 0; step < orderLen; step++) {
+      index += delta;
 
-    if (areaManager.kind === "list") {
-      const orientation = areaManager.orientation;
+      if (index < 0 || index > orderLen - 1) {
+        if (!this._wrapAreas && !this.scope) return false;
 
-      // TODO: maybe add support for this via an option
-      if (orientation === "horizontal") {
-        return;
+        index = wrapIndex(index, orderLen);
       }
 
-      areaManager.focusOnPage(1);
-      this.entry.source = "keyboard";
+      const area = order[index];
+      if (area === currentArea) return false;
+
+      if (!this.isAreaEmpty(this._areas[area])) {
+        this.focusArea(area, source);
+        return true;
+      }
     }
+
+    return false;
   }
 
+  /**
+   * Returns the index of the history entry `delta` entries away from the
+   * active one, counting only entries of areas inside the active focus scope,
+   * or -1 if there is no such entry.
+   */
+  protected getHistoryIndex(delta: number): number {
+    if (delta === 0) return this._index;
+
+    const step = delta < 0 ? -1 : 1;
+    let remaining = Math.abs(delta);
+
+    for (
+      let i = this._index + step;
+      i >= 0 && i < this._stack.length;
+      i += step
+    ) {
+      if (this.isAreaInScope(this._stack[i].area) && --remaining === 0) {
+        return i;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Returns whether an area can receive focus under the active focus scope.
+   */
+  protected isAreaInScope(area: keyof T): boolean {
+    return this.scope?.areas.includes(area) ?? true;
+  }
+
+  /**
+   * Returns the names of the areas that can receive focus under the active
+   * focus scope, in declaration order.
+   */
+  protected getScopedAreas(): Extract<keyof T, string>[] {
+    return (Object.keys(this._areas) as Extract<keyof T, string>[]).filter(
+      (area) => this.isAreaInScope(area)
+    );
+  }
+
+  /**
+   * Returns whether an area has nothing to focus: a list or spatial area without
+   * keys, a grid without rows or columns, a tree without root nodes, or a
+   * composite area whose areas are all empty.
+   */
+  protected isAreaEmpty(manager: AreaFocusManager): boolean {
+    if (manager.kind === "list") {
+      return manager.getKeyCount() === 0;
+    }
+    //
+    else if (manager.kind === "grid") {
+      return (
+        manager.getRowKeys().length === 0 ||
+        manager.getColumnKeys().length === 0
+      );
+    }
+    //
+    else if (manager.kind === "tree") {
+      return manager.getRootKeys().length === 0;
+    }
+    //
+    else if (manager.kind === "spatial") {
+      return manager.getKeys().length === 0;
+    }
+
+    const areas: AreaFocusManager[] = Object.values(manager.areas);
+
+    return areas.every((area) => this.isAreaEmpty(area));
+  }
+
+  /**
+   * Returns the innermost FocusManager that has focus: either one whose active
+   * area is focused, or a nested one that is focused at its own level.
+   */
+  protected getActiveManager(): FocusManager<any> {
+    let manager: FocusManager<any> = this;
+
+    for (;;) {
+      const areaManager: AreaFocusManager | undefined = manager.entry?.manager;
+
+      if (areaManager?.kind !== "composite") return manager;
+
+      manager = areaManager;
+
+      if (!manager._childFocused) return manager;
+    }
+  }
+
+  /**
+   * Returns the list area that has focus, through nested areas, or null if
+   * the focused area is not a list.
+   */
+  protected getActiveList(): ListFocusManager | null {
+    const manager = this.getActiveManager();
+    if (!manager._childFocused) return null;
+
+    const areaManager: AreaFocusManager | undefined = manager.entry?.manager;
+
+    return areaManager?.kind === "list" ? areaManager : null;
+  }
+
+  /**
+   * Makes the given area active without changing its focused key, unless it
+   * has none yet. Used while this FocusManager is focused at its own level.
+   */
+  protected selectArea(area: Extract<keyof T, string>, source: FocusSource) {
+    this.change("area", source, () => {
+      const manager = this._areas[area];
+
+      if (this.entry?.area === area) {
+        this.entry.source = source;
+      }
+      //
+      else {
+        this.push({
+          area,
+          source,
+          meta: null,
+          manager,
+        });
+      }
+
+      const areaManager: AreaFocusManager = manager;
+
+      if (areaManager.kind === "composite") {
+        const childArea =
+          areaManager.key ?? areaManager.getInitialKeyOnAreaFocus();
+        if (childArea != null) areaManager.selectArea(childArea, source);
+      }
+      //
+      else if (areaManager.key == null) {
+        const keyed = getKeyedArea(areaManager);
+        keyed.key = keyed.getInitialKeyOnAreaFocus();
+      }
+    });
+  }
+
+  /**
+   * Moves focus in a spatial area, or to the area returned by its `getExitArea`
+   * when there is no item in that direction. A spatial exit area is entered at
+   * the item nearest to the one focus left, keeping its cross-axis position,
+   * and other areas at their initial key.
+   *
+   * @returns {boolean} True if focus moved.
+   */
+  protected focusOnSpatialDirection(
+    manager: SpatialFocusManager,
+    direction: SpatialDirection
+  ): boolean {
+    if (manager.focusOnDirection(direction)) {
+      if (this.entry) this.entry.source = "keyboard";
+      return true;
+    }
+
+    const exitArea = manager.getExitArea(direction) as Extract<
+      keyof T,
+      string
+    > | null;
+
+    if (
+      exitArea == null ||
+      !(exitArea in this._areas) ||
+      this.isAreaEmpty(this._areas[exitArea])
+    ) {
+      return false;
+    }
+
+    const rect = manager.getReferenceRect(direction);
+
+    if (!this.focusArea(exitArea, "keyboard")) return false;
+
+    const areaManager: AreaFocusManager = this._areas[exitArea];
+
+    if (areaManager.kind === "spatial" && rect) {
+      areaManager.focusFromRect(direction, rect);
+    }
+
+    return true;
+  }
+
+  /**
+   * Moves to the previous or next area in declaration order, stopping at the
+   * first and last area. Used while this FocusManager is focused at its own level.
+   */
+  protected focusOnAdjacentArea(delta: -1 | 1): boolean {
+    const areas = this.getScopedAreas();
+    if (areas.length === 0) return false;
+
+    const currentIndex = this.key != null ? areas.indexOf(this.key) : -1;
+
+    const targetIndex =
+      currentIndex === -1
+        ? delta === 1
+          ? 0
+          : areas.length - 1
+        : clampIndex(currentIndex + delta, areas.length);
+
+    this.selectArea(areas[targetIndex], "keyboard");
+    return true;
+  }
+
+  /**
+   * Moves to the first or last area in declaration order.
+   * Used while this FocusManager is focused at its own level.
+   */
+  protected focusOnEdgeArea(direction: -1 | 1): boolean {
+    const areas = this.getScopedAreas();
+    if (areas.length === 0) return false;
+
+    this.selectArea(
+      direction === -1 ? areas[0] : areas[areas.length - 1],
+      "keyboard"
+    );
+    return true;
+  }
+
+  /**
+   * Enters the active area. Called by the parent FocusManager when this
+   * composite area becomes its active area.
+   *
+   * While the composite area is not active, changes of its own active area
+   * do not invoke enter and leave hooks, so they stay balanced.
+   */
+  notifyEnter(): void {
+    this._entered = true;
+    this.entry?.manager.notifyEnter();
+  }
+
+  /**
+   * Leaves the active area. Called by the parent FocusManager when this
+   * composite area stops being its active area.
+   */
+  notifyLeave(): void {
+    this.entry?.manager.notifyLeave();
+    this._entered = false;
+  }
+
+  /**
+   * Called by the parent FocusManager when the active area of this composite
+   * area changes. The areas involved were already left and entered by this
+   * FocusManager, so nothing is forwarded: `prevKey` is an area name, not a
+   * key of the active area.
+   */
+  notifyKeyChange(_prevKey: AreaFocusKey | null): void {}
+
   /**
    * Clears the focus history stack and resets the active index.
    *
@@ -459,7 +2290,37 @@ export class FocusManager<T extends Record<string, ListFocusManager>> {
    * navigation to start fresh without any prior history.
    */
   clear() {
-    this._stack.length = 0;
-    this._index = -1;
+    return this.operation("clear", [], () => {
+      this.change("clear", "programmatic", () => {
+        this._stack.length = 0;
+        this._index = -1;
+      });
+    });
   }
 }
+
+/**
+ * The members of list, grid, tree and spatial areas that take or return a
+ * focused key, typed with the key type shared by all of them.
+ */
+type KeyedAreaFocusManager = {
+  key: AreaFocusKey | null;
+  getInitialKeyOnAreaFocus(): AreaFocusKey | null;
+  hasKey(key: AreaFocusKey): boolean;
+  getNearestKey(key: AreaFocusKey, index: number): AreaFocusKey | null;
+  notifyKeyChange(prevKey: AreaFocusKey | null): void;
+};
+
+/**
+ * Returns a list, grid, tree or spatial area typed as `KeyedAreaFocusManager`.
+ *
+ * TypeScript intersects the parameter types of members used on a union of
+ * classes, which leaves no valid key for grid cells and `FocusKey`s together.
+ * The keys given to an area always come from that same area (its history
+ * entries, snapshot or initial key), so this is the one place the cast is made.
+ */
+function getKeyedArea(
+  manager: Exclude<AreaFocusManager, FocusManager<any>>
+): KeyedAreaFocusManager {
+  return manager as KeyedAreaFocusManager;
+}
@@ -0,0 +1,202 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { FocusManager } from "./FocusManager";
+import { FocusStoreAdapter } from "./FocusStoreAdapter";
+import { GridFocusManager } from "./GridFocusManager";
+import { ListFocusManager } from "./ListFocusManager";
+
+type Areas = {
+  list: ListFocusManager;
+  grid: GridFocusManager;
+};
+
+describe("FocusStoreAdapter", () => {
+  let fm: FocusManager<Areas>;
+  let stores: FocusStoreAdapter<Areas>;
+
+  beforeEach(() => {
+    fm = new FocusManager<Areas>({
+      areas: {
+        list: new ListFocusManager({
+          getKeys: () => ["a", "b", "c"],
+          getInitialKeyOnAreaFocus: () => "a",
+        }),
+        grid: new GridFocusManager({
+          getRowKeys: () => ["r1", "r2"],
+          getColumnKeys: () => ["c1", "c2"],
+          getInitialKeyOnAreaFocus: () => ({ row: "r1", col: "c1" }),
+        }),
+      },
+    });
+
+    stores = new FocusStoreAdapter({ focusManager: fm });
+  });
+
+  it("calls subscribers right away and then on changes, like Svelte stores", () => {
+    const run = vi.fn();
+    stores.entry.subscribe(run);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(run).toHaveBeenLastCalledWith(null);
+
+    fm.focusArea("list");
+
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(run).toHaveBeenLastCalledWith(fm.entry);
+    expect(stores.entry.get()).toBe(fm.entry);
+  });
+
+  it("notifies entry subscribers on area changes, not on key moves", () => {
+    fm.focusArea("list");
+
+    const run = vi.fn();
+    stores.entry.subscribe(run);
+
+    fm.focusOnArrowDown();
+    expect(run).toHaveBeenCalledTimes(1);
+
+    fm.focusArea("grid");
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it("tracks the history position", () => {
+    const run = vi.fn();
+    stores.history.subscribe(run);
+
+    fm.focusArea("list");
+    fm.focusArea("grid");
+    fm.focusOnArrowDown();
+    fm.goBack();
+
+    expect(run.mock.calls.map(([position]) => position)).toEqual([
+      { index: -1, length: 0 },
+      { index: 0, length: 1 },
+      { index: 1, length: 2 },
+      { index: 0, length: 2 },
+    ]);
+  });
+
+  it("tracks the history position when entries of an inactive area are dropped", () => {
+    const plugins = new FocusManager<{
+      list: ListFocusManager;
+      plugin?: ListFocusManager;
+    }>({
+      areas: { list: new ListFocusManager({ getKeys: () => ["a"] }) },
+    });
+    const history = new FocusStoreAdapter({ focusManager: plugins }).history;
+
+    plugins.registerArea(
+      "plugin",
+      new ListFocusManager({ getKeys: () => ["x"] })
+    );
+    plugins.focusArea("list");
+    plugins.focusArea("plugin");
+    plugins.focusArea("list");
+
+    const run = vi.fn();
+    history.subscribe(run);
+
+    plugins.unregisterArea("plugin");
+
+    expect(run).toHaveBeenLastCalledWith({ index: 0, length: 1 });
+    expect(history.get()).toEqual(plugins.getHistoryPosition());
+  });
+
+  it("keeps the focused key of each area, comparing grid cells by value", () => {
+    const listRun = vi.fn();
+    const gridRun = vi.fn();
+    stores.areaKey("list").subscribe(listRun);
+    stores.areaKey("grid").subscribe(gridRun);
+
+    fm.focusAreaKey("grid", { row: "r2", col: "c2" });
+    fm.focusAreaKey("grid", { row: "r2", col: "c2" });
+    fm.focusArea("list");
+    fm.focusOnArrowDown();
+
+    expect(gridRun.mock.calls).toEqual([[null], [{ row: "r2", col: "c2" }]]);
+    expect(listRun.mock.calls).toEqual([[null], ["a"], ["b"]]);
+    expect(stores.areaKey("list")).toBe(stores.areaKey("list"));
+  });
+
+  it("tracks key changes of inactive areas", () => {
+    const rows = ["1", "2", "3"];
+    fm.dispose();
+    fm = new FocusManager<Areas>({
+      areas: {
+        list: new ListFocusManager({ getKeys: () => rows }),
+        grid: new GridFocusManager({
+          getRowKeys: () => ["r1"],
+          getColumnKeys: () => ["c1"],
+        }),
+      },
+    });
+    stores = new FocusStoreAdapter({ focusManager: fm });
+
+    fm.focusAreaKey("list", "2");
+    fm.focusAreaKey("grid", { row: "r1", col: "c1" });
+
+    const run = vi.fn();
+    stores.areaKey("list").subscribe(run);
+
+    rows.splice(1, 1);
+    fm.reconcile();
+
+    expect(run).toHaveBeenLastCalledWith("3");
+    expect(stores.areaKey("list").get()).toBe("3");
+
+    const snapshot = fm.getSnapshot();
+    fm.focusArea("list");
+    fm.focusOnArrowUp();
+    fm.restoreSnapshot(snapshot);
+
+    expect(fm.entry?.area).toBe("grid");
+    expect(run).toHaveBeenLastCalledWith("3");
+  });
+
+  it("notifies isFocused subscribers only when their item gains or loses focus", () => {
+    const runs = ["a", "b", "c"].map((key) => {
+      const run = vi.fn();
+      stores.isFocused("list", key).subscribe(run);
+      return run;
+    });
+
+    fm.focusArea("list");
+    fm.focusOnArrowDown();
+
+    expect(runs.map((run) => run.mock.calls)).toEqual([
+      [[false], [true], [false]],
+      [[false], [true]],
+      [[false]],
+    ]);
+  });
+
+  it("derives stores from selectors", () => {
+    const run = vi.fn();
+    stores
+      .select((focusManager) => focusManager.getFocusPath().length)
+      .subscribe(run);
+
+    fm.focusArea("list");
+    fm.focusOnArrowDown();
+    fm.focusArea("grid");
+
+    expect(run.mock.calls).toEqual([[0], [1]]);
+  });
+
+  it("subscribes to the FocusManager only while a store has subscribers", () => {
+    const subscribe = vi.spyOn(fm, "subscribe");
+    const store = stores.areaKey("list");
+
+    const first = store.subscribe(() => {});
+    const second = store.subscribe(() => {});
+    expect(subscribe).toHaveBeenCalledTimes(1);
+
+    first();
+    second();
+
+    fm.focusArea("list");
+    expect(store.get()).toBe("a");
+
+    store.subscribe(() => {});
+    expect(subscribe).toHaveBeenCalledTimes(2);
+  });
+});
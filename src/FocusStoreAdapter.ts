@@ -0,0 +1,185 @@
+import type { FocusManager } from "./FocusManager";
+import type {
+  AreaFocusKey,
+  AreaFocusManager,
+  FocusAreaEntry,
+  FocusHistoryPosition,
+  FocusStore,
+  FocusStoreAdapterProps,
+  KeyFromAreaFocusManager,
+} from "./types";
+import { isSameAreaKey } from "./utils";
+
+/**
+ * FocusStoreAdapter exposes the state of a FocusManager as readable stores
+ * that follow the Svelte store contract, for views that observe values rather
+ * than change events, e.g. Svelte stores, Vue refs or signals.
+ *
+ * Responsibilities:
+ * - Provides stores for the active entry, the history position and the
+ *   focused key of each area.
+ * - Derives stores from selectors, e.g. whether a key is focused in an area.
+ *   A store notifies its subscribers only when its value changes.
+ * - Subscribes to the FocusManager only while a store has subscribers.
+ *
+ * @template T A record mapping area identifiers to their corresponding area focus manager instances.
+ */
+export class FocusStoreAdapter<T extends Record<string, AreaFocusManager>> {
+  /**
+   * Creates a new FocusStoreAdapter.
+   *
+   * @param props Configuration options for the adapter:
+   * - `focusManager`: The FocusManager whose state is exposed as stores.
+   */
+  constructor(props: FocusStoreAdapterProps<T>) {
+    this._focusManager = props.focusManager;
+  }
+
+  protected _focusManager;
+
+  protected _entry?: FocusStore<FocusAreaEntry<T> | null>;
+  protected _history?: FocusStore<FocusHistoryPosition>;
+  protected _areaKeys = new Map<keyof T, FocusStore<AreaFocusKey | null>>();
+
+  get focusManager() {
+    return this._focusManager;
+  }
+
+  /**
+   * A store of the active entry. Notifies when another entry becomes active,
+   * but not when the focused key moves within the active area.
+   */
+  get entry(): FocusStore<FocusAreaEntry<T> | null> {
+    this._entry ??= this.select((focusManager) => focusManager.entry);
+
+    return this._entry;
+  }
+
+  /**
+   * A store of the position of the active entry in the history stack,
+   * see `FocusManager.getHistoryPosition`.
+   */
+  get history(): FocusStore<FocusHistoryPosition> {
+    this._history ??= this.select(
+      (focusManager) => focusManager.getHistoryPosition(),
+      (a, b) => a.index === b.index && a.length === b.length
+    );
+
+    return this._history;
+  }
+
+  /**
+   * Returns a store of the focused key of an area, whether or not it is the
+   * active area, e.g. also when `reconcile` or `restoreSnapshot` replace the
+   * key of an inactive area. Grid cells are compared by value.
+   *
+   * @param area The identifier of the area.
+   * @returns A store of the focused key (a `{ row, col }` cell for grid areas).
+   */
+  areaKey<K extends keyof T>(
+    area: K
+  ): FocusStore<KeyFromAreaFocusManager<T[K]> | null> {
+    let store = this._areaKeys.get(area);
+
+    if (!store) {
+      store = this.select((focusManager) => {
+        const manager: AreaFocusManager | undefined = focusManager.areas[area];
+
+        return manager?.key ?? null;
+      }, isSameAreaKey);
+
+      this._areaKeys.set(area, store);
+    }
+
+    return store as FocusStore<KeyFromAreaFocusManager<T[K]> | null>;
+  }
+
+  /**
+   * Returns a store of whether an area is the active area and `key` is its
+   * focused key. Notifies only when that changes, so that moving focus
+   * through a list notifies the stores of the previously and newly focused
+   * items only.
+   *
+   * @param area The identifier of the area.
+   * @param key The key of the item (a `{ row, col }` cell for grid areas).
+   * @returns {FocusStore<boolean>} A store of whether the item is focused.
+   */
+  isFocused<K extends keyof T>(
+    area: K,
+    key: KeyFromAreaFocusManager<T[K]>
+  ): FocusStore<boolean> {
+    return this.select((focusManager) => {
+      const entry = focusManager.entry;
+
+      return (
+        entry?.area === area &&
+        isSameAreaKey(entry.manager.key, key as AreaFocusKey)
+      );
+    });
+  }
+
+  /**
+   * Returns a store of a value derived from the FocusManager. The selector
+   * runs after every focus change, and subscribers are notified only if
+   * `isEqual` reports a different value.
+   *
+   * @param selector Function returning the value from the FocusManager.
+   * @param isEqual Function comparing two values. Defaults to `Object.is`.
+   * @returns {FocusStore<V>} A store of the selected value.
+   */
+  select<V>(
+    selector: (focusManager: FocusManager<T>) => V,
+    isEqual: (a: V, b: V) => boolean = Object.is
+  ): FocusStore<V> {
+    return createSelectorStore(this._focusManager, selector, isEqual);
+  }
+}
+
+function createSelectorStore<T extends Record<string, AreaFocusManager>, V>(
+  focusManager: FocusManager<T>,
+  selector: (focusManager: FocusManager<T>) => V,
+  isEqual: (a: V, b: V) => boolean
+): FocusStore<V> {
+  const runs = new Set<(value: V) => void>();
+
+  let value: V;
+  let unsubscribe: (() => void) | null = null;
+
+  const start = () => {
+    value = selector(focusManager);
+
+    unsubscribe = focusManager.subscribe(() => {
+      const nextValue = selector(focusManager);
+      if (isEqual(value, nextValue)) return;
+
+      value = nextValue;
+
+      for (const run of Array.from(runs)) {
+        run(value);
+      }
+    });
+  };
+
+  return {
+    // while there are subscribers, returns the value they were notified of
+    get: () => (unsubscribe ? value : selector(focusManager)),
+
+    subscribe: (run) => {
+      if (!unsubscribe) start();
+
+      // a function can subscribe more than once, like with Svelte stores
+      const subscriber = (value: V) => run(value);
+      runs.add(subscriber);
+      run(value);
+
+      return () => {
+        runs.delete(subscriber);
+
+        if (runs.size === 0 && unsubscribe) {
+          unsubscribe();
+          unsubscribe = null;
+        }
+      };
+    },
+  };
+}
@@ -0,0 +1,286 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { FocusManager } from "./FocusManager";
+import { FocusTraceRecorder, replayFocusTrace } from "./FocusTraceRecorder";
+import { GridFocusManager } from "./GridFocusManager";
+import { ListFocusManager } from "./ListFocusManager";
+import type { FocusTrace } from "./types";
+
+type Areas = {
+  list: ListFocusManager<{ id: string }>;
+  grid: GridFocusManager;
+};
+
+const createFocusManager = (rows: string[]) =>
+  new FocusManager<Areas>({
+    areas: {
+      list: new ListFocusManager({
+        getKeys: () => rows,
+        getInitialKeyOnAreaFocus: () => rows[0],
+        getFirstVisibleIndex: () => 0,
+        getLastVisibleIndex: () => 2,
+      }),
+      grid: new GridFocusManager({
+        getRowKeys: () => ["r1", "r2"],
+        getColumnKeys: () => ["c1", "c2"],
+        getInitialKeyOnAreaFocus: () => ({ row: "r1", col: "c1" }),
+      }),
+    },
+  });
+
+describe("FocusTraceRecorder", () => {
+  let rows: string[];
+  let fm: FocusManager<Areas>;
+  let recorder: FocusTraceRecorder<Areas>;
+  let time: number;
+
+  beforeEach(() => {
+    rows = ["a", "b", "c", "d", "e", "f"];
+    fm = createFocusManager(rows);
+    time = 0;
+    recorder = new FocusTraceRecorder({ focusManager: fm, now: () => ++time });
+  });
+
+  it("records operations with their arguments and resulting state", () => {
+    fm.focusArea("list", "pointer");
+    fm.focusOnPageDown();
+    fm.focusAreaKey("grid", { row: "r2", col: "c1" });
+    fm.focusOnEnd();
+
+    expect(recorder.getTrace().entries).toEqual([
+      {
+        operation: "focusArea",
+        args: ["list", "pointer"],
+        source: "pointer",
+        timestamp: 1,
+        area: "list",
+        key: "a",
+        keyCount: 6,
+      },
+      {
+        operation: "focusOnPageDown",
+        args: [],
+        source: "keyboard",
+        timestamp: 2,
+        area: "list",
+        key: "c",
+        keyCount: 6,
+      },
+      {
+        operation: "focusAreaKey",
+        args: ["grid", { row: "r2", col: "c1" }, "programmatic"],
+        source: "programmatic",
+        timestamp: 3,
+        area: "grid",
+        key: { row: "r2", col: "c1" },
+        keyCount: 2,
+      },
+      {
+        operation: "focusOnEnd",
+        args: [false],
+        source: "keyboard",
+        timestamp: 4,
+        area: "grid",
+        key: { row: "r2", col: "c2" },
+        keyCount: 2,
+      },
+    ]);
+  });
+
+  it("records nested operations once, as the outermost call", () => {
+    fm.focusArea("list");
+    fm.handleKeyDown({
+      key: "ArrowDown",
+      code: "",
+      ctrlKey: false,
+      altKey: false,
+      shiftKey: false,
+      metaKey: false,
+    });
+    fm.goBack();
+
+    const entries = recorder.getTrace().entries;
+
+    expect(entries.map((entry) => entry.operation)).toEqual([
+      "focusArea",
+      "focusOnArrowDown",
+      "goBack",
+    ]);
+    expect(entries[2].source).toBeNull();
+  });
+
+  it("replays an exported trace against a fresh FocusManager", () => {
+    fm.focusArea("list");
+    fm.focusOnArrowDown();
+    fm.focusOnPageDown();
+    fm.focusArea("grid");
+    fm.go(-1);
+    fm.clear();
+
+    const trace: FocusTrace = JSON.parse(JSON.stringify(recorder));
+    const result = replayFocusTrace(createFocusManager([...rows]), trace);
+
+    expect(result).toEqual({ ok: true, mismatches: [] });
+  });
+
+  it("records and replays scopes, reconcile, snapshots and area registration", () => {
+    const snapshot = fm.getSnapshot();
+
+    fm.focusArea("list");
+    fm.pushScope({ areas: ["grid"] });
+    fm.focusOnArrowDown();
+    fm.popScope();
+    fm.reconcile();
+    fm.unregisterArea("grid");
+    fm.restoreSnapshot(snapshot);
+
+    const trace: FocusTrace = JSON.parse(JSON.stringify(recorder));
+
+    expect(trace.entries.map((entry) => entry.operation)).toEqual([
+      "focusArea",
+      "pushScope",
+      "focusOnArrowDown",
+      "popScope",
+      "reconcile",
+      "unregisterArea",
+      "restoreSnapshot",
+    ]);
+    expect(trace.entries[1].args).toEqual([{ areas: ["grid"] }]);
+    expect(trace.entries[6].args).toEqual([snapshot]);
+
+    const result = replayFocusTrace(createFocusManager([...rows]), trace);
+
+    expect(result.mismatches).toEqual([]);
+  });
+
+  it("fails loudly when a registered area is missing on replay", () => {
+    const plugins = new FocusManager<{
+      list: ListFocusManager;
+      plugin?: ListFocusManager;
+    }>({ areas: { list: new ListFocusManager({ getKeys: () => ["a"] }) } });
+    const pluginRecorder = new FocusTraceRecorder({ focusManager: plugins });
+
+    plugins.registerArea(
+      "plugin",
+      new ListFocusManager({ getKeys: () => ["x"] })
+    );
+    plugins.focusArea("plugin");
+
+    const trace = pluginRecorder.getTrace();
+    expect(trace.entries[0]).toMatchObject({
+      operation: "registerArea",
+      args: ["plugin"],
+    });
+
+    const replayed = new FocusManager({
+      areas: { list: new ListFocusManager({ getKeys: () => ["a"] }) },
+    });
+
+    expect(() => replayFocusTrace(replayed, trace)).toThrow(
+      'replayFocusTrace: #0 registerArea cannot be replayed. Register the area "plugin" on the FocusManager before replaying.'
+    );
+
+    replayed.registerArea(
+      "plugin",
+      new ListFocusManager({ getKeys: () => ["x"] })
+    );
+    expect(replayFocusTrace(replayed, trace).ok).toBe(true);
+  });
+
+  it("restores the state recording started from before replaying", () => {
+    recorder.dispose();
+    fm.focusAreaKey("list", "d");
+
+    recorder = new FocusTraceRecorder({ focusManager: fm });
+    fm.focusOnArrowDown();
+
+    const replayed = createFocusManager([...rows]);
+    const result = replayFocusTrace(replayed, recorder.getTrace());
+
+    expect(result.ok).toBe(true);
+    expect(replayed.entry?.manager.key).toBe("e");
+  });
+
+  it("reports the differences when the replay diverges", () => {
+    fm.focusArea("list");
+    fm.focusOnPageDown();
+    fm.focusOnArrowDown();
+
+    const result = replayFocusTrace(
+      createFocusManager(["a", "b", "x", "c", "d", "e", "f"]),
+      recorder.getTrace()
+    );
+
+    expect(result.ok).toBe(false);
+    expect(result.mismatches.map((mismatch) => mismatch.diff)).toEqual([
+      ["keyCount"],
+      ["key", "keyCount"],
+      ["key", "keyCount"],
+    ]);
+    expect(result.mismatches[1]).toEqual({
+      index: 1,
+      operation: "focusOnPageDown",
+      expected: { area: "list", key: "c", keyCount: 6 },
+      actual: { area: "list", key: "x", keyCount: 7 },
+      diff: ["key", "keyCount"],
+      message:
+        '#1 focusOnPageDown: key: expected "c", got "x"; keyCount: expected 6, got 7',
+    });
+  });
+
+  it("serializes and deserializes meta arguments", () => {
+    const meta = { id: "tab-1" };
+    recorder.dispose();
+    recorder = new FocusTraceRecorder({
+      focusManager: fm,
+      serializeMeta: (value) => (value as { id: string }).id,
+    });
+
+    fm.focusArea("list", "keyboard", meta);
+
+    const trace = recorder.getTrace();
+    expect(trace.entries[0].args).toEqual(["list", "keyboard", "tab-1"]);
+
+    const replayed = createFocusManager(rows);
+    replayFocusTrace(replayed, trace, {
+      deserializeMeta: (id) => ({ id }),
+    });
+
+    expect(replayed.entry?.meta).toEqual(meta);
+  });
+
+  it("stops recording on dispose", () => {
+    recorder.dispose();
+    fm.focusArea("list");
+
+    expect(Object.hasOwn(fm, "focusArea")).toBe(false);
+    expect(recorder.getTrace().entries).toEqual([]);
+  });
+
+  it("records calls through method references taken before recording", () => {
+    recorder.dispose();
+    const focusOnArrowDown = fm.focusOnArrowDown.bind(fm);
+    fm.focusArea("list");
+
+    recorder = new FocusTraceRecorder({ focusManager: fm });
+    focusOnArrowDown();
+
+    expect(recorder.getTrace().entries).toMatchObject([
+      { operation: "focusOnArrowDown", area: "list", key: "b" },
+    ]);
+  });
+
+  it("keeps other recorders of the same FocusManager attached on dispose", () => {
+    const second = new FocusTraceRecorder({ focusManager: fm });
+
+    recorder.dispose();
+    fm.focusArea("list");
+
+    expect(recorder.getTrace().entries).toEqual([]);
+    expect(second.getTrace().entries).toHaveLength(1);
+
+    second.dispose();
+    fm.focusOnArrowDown();
+
+    expect(second.getTrace().entries).toHaveLength(1);
+  });
+});
@@ -0,0 +1,348 @@
+import type { FocusManager } from "./FocusManager";
+import type {
+  AreaFocusKey,
+  AreaFocusManager,
+  FocusAreaSequence,
+  FocusOperation,
+  FocusOperationEvent,
+  FocusScopeOptions,
+  FocusSnapshot,
+  FocusSource,
+  FocusTrace,
+  FocusTraceEntry,
+  FocusTraceMismatch,
+  FocusTraceRecorderProps,
+  FocusTraceReplayOptions,
+  FocusTraceReplayResult,
+  FocusTraceState,
+} from "./types";
+import { copyAreaKey, isSameAreaKey } from "./utils";
+
+/** The position of the meta argument of the operations that take one. */
+const metaArgIndices: Partial<Record<FocusOperation, number>> = {
+  focusArea: 2,
+  focusAreaKey: 3,
+};
+
+/**
+ * Calls each operation that can be replayed with the arguments of a trace entry.
+ * `registerArea` cannot be replayed, see `replayFocusTrace`.
+ */
+const replayedOperations: Record<
+  Exclude<FocusOperation, "registerArea">,
+  (focusManager: FocusManager<any>, args: unknown[]) => unknown
+> = {
+  focusArea: (fm, [area, source, meta]) =>
+    fm.focusArea(area as string, source as FocusSource | undefined, meta),
+  focusAreaKey: (fm, [area, key, source, meta]) =>
+    fm.focusAreaKey(
+      area as string,
+      key as AreaFocusKey,
+      source as FocusSource | undefined,
+      meta
+    ),
+  focusNextArea: (fm, [sequence, source]) =>
+    fm.focusNextArea(
+      sequence as FocusAreaSequence | undefined,
+      source as FocusSource | undefined
+    ),
+  focusPreviousArea: (fm, [sequence, source]) =>
+    fm.focusPreviousArea(
+      sequence as FocusAreaSequence | undefined,
+      source as FocusSource | undefined
+    ),
+  focusParentArea: (fm, [source]) =>
+    fm.focusParentArea(source as FocusSource | undefined),
+  focusChildArea: (fm, [source]) =>
+    fm.focusChildArea(source as FocusSource | undefined),
+  focusOnArrowUp: (fm) => fm.focusOnArrowUp(),
+  focusOnArrowDown: (fm) => fm.focusOnArrowDown(),
+  focusOnArrowLeft: (fm) => fm.focusOnArrowLeft(),
+  focusOnArrowRight: (fm) => fm.focusOnArrowRight(),
+  focusOnHome: (fm, [ctrlKey]) =>
+    fm.focusOnHome(ctrlKey as boolean | undefined),
+  focusOnEnd: (fm, [ctrlKey]) => fm.focusOnEnd(ctrlKey as boolean | undefined),
+  focusOnPageUp: (fm) => fm.focusOnPageUp(),
+  focusOnPageDown: (fm) => fm.focusOnPageDown(),
+  focusOnCharacter: (fm, [char]) => fm.focusOnCharacter(char as string),
+  go: (fm, [delta]) => fm.go(delta as number),
+  goBack: (fm) => fm.goBack(),
+  clear: (fm) => fm.clear(),
+  pushScope: (fm, [options]) => fm.pushScope(options as FocusScopeOptions<any>),
+  popScope: (fm) => fm.popScope(),
+  reconcile: (fm) => fm.reconcile(),
+  restoreSnapshot: (fm, [snapshot]) =>
+    fm.restoreSnapshot(snapshot as FocusSnapshot),
+  unregisterArea: (fm, [area]) => fm.unregisterArea(area as string),
+  expandSiblings: (fm) => fm.expandSiblings(),
+  toggleSelection: (fm) => fm.toggleSelection(),
+  selectAll: (fm) => fm.selectAll(),
+};
+
+/**
+ * FocusTraceRecorder records the operations called on a FocusManager, so that
+ * a focus bug can be exported from the app and replayed in a test.
+ *
+ * Responsibilities:
+ * - Records every `focusArea`, `focusAreaKey`, area traversal, `focusOn*`,
+ *   `go`, `goBack`, `clear`, focus scope, `reconcile`, `restoreSnapshot`,
+ *   area registration, `expandSiblings` and selection call with its
+ *   arguments, the source of the resulting focus change, a timestamp, the
+ *   resulting active area and key, and the number of keys of the active area.
+ * - Records the focus state when recording starts, so that a replay starts
+ *   from the same state.
+ * - Exports the trace as JSON through `getTrace` / `toJSON`.
+ *
+ * Operations called by other operations, e.g. `focusOn*` calls made by
+ * `handleKeyDown`, are recorded once, as the outermost traced call.
+ *
+ * Selections are not part of the recorded state: Shift+arrow selections are
+ * recorded as the `focusOn*` call that moved focus.
+ *
+ * Recording starts when the recorder is created: it listens to the
+ * operations of the FocusManager through `onOperation` until `dispose` is
+ * called. Several recorders can be attached to the same FocusManager.
+ *
+ * @template T A record mapping area identifiers to their corresponding area focus manager instances.
+ */
+export class FocusTraceRecorder<T extends Record<string, AreaFocusManager>> {
+  /**
+   * Creates a new FocusTraceRecorder and starts recording.
+   *
+   * @param props Configuration options for the recorder:
+   * - `focusManager`: The FocusManager whose operations are recorded.
+   * - `now`: Function returning the timestamp of an operation (default: `Date.now`).
+   * - `serializeMeta`: Function converting meta into a JSON-serializable value.
+   */
+  constructor(props: FocusTraceRecorderProps<T>) {
+    this._focusManager = props.focusManager;
+    this._now = props.now ?? Date.now;
+    this._serializeMeta = props.serializeMeta ?? ((meta) => meta);
+
+    this._snapshot = this._focusManager.getSnapshot({
+      serializeMeta: this._serializeMeta,
+    });
+
+    this._unsubscribe = this._focusManager.onOperation((event) => {
+      this.record(event);
+    });
+  }
+
+  protected _focusManager;
+  protected _now;
+  protected _serializeMeta;
+  protected _unsubscribe: () => void;
+
+  protected _snapshot;
+  protected _entries: FocusTraceEntry[] = [];
+
+  get focusManager() {
+    return this._focusManager;
+  }
+
+  /**
+   * Returns the recorded trace.
+   *
+   * @returns {FocusTrace} The starting snapshot and the recorded operations.
+   */
+  getTrace(): FocusTrace {
+    return {
+      snapshot: this._snapshot,
+      entries: [...this._entries],
+    };
+  }
+
+  /**
+   * Returns the recorded trace, so that `JSON.stringify(recorder)` exports it.
+   */
+  toJSON(): FocusTrace {
+    return this.getTrace();
+  }
+
+  /**
+   * Discards the recorded operations and restarts the trace from the current
+   * focus state.
+   */
+  clear() {
+    this._entries = [];
+    this._snapshot = this._focusManager.getSnapshot({
+      serializeMeta: this._serializeMeta,
+    });
+  }
+
+  /**
+   * Stops recording. The recorded trace remains available.
+   */
+  dispose() {
+    this._unsubscribe();
+  }
+
+  protected record(event: FocusOperationEvent) {
+    this._entries.push({
+      operation: event.operation,
+      args: this.serializeArgs(event.operation, event.args),
+      source: event.source,
+      timestamp: this._now(),
+      ...getTraceState(this._focusManager),
+    });
+  }
+
+  protected serializeArgs(
+    operation: FocusOperation,
+    args: unknown[]
+  ): unknown[] {
+    // grid cells are copied, so that later mutations do not change the trace
+    const serializedArgs: unknown[] = args.map((arg) =>
+      copyAreaKey(arg as AreaFocusKey | undefined)
+    );
+
+    // the area manager and the restore options cannot be serialized
+    if (operation === "registerArea" || operation === "restoreSnapshot") {
+      serializedArgs.length = 1;
+    }
+
+    if (operation === "restoreSnapshot" || operation === "pushScope") {
+      serializedArgs[0] = JSON.parse(JSON.stringify(args[0]));
+    }
+
+    const metaIndex = metaArgIndices[operation];
+
+    if (metaIndex != null && serializedArgs[metaIndex] !== undefined) {
+      serializedArgs[metaIndex] = this._serializeMeta(
+        serializedArgs[metaIndex],
+        args[0] as string
+      );
+    }
+
+    while (
+      serializedArgs.length > 0 &&
+      serializedArgs[serializedArgs.length - 1] === undefined
+    ) {
+      serializedArgs.pop();
+    }
+
+    return serializedArgs;
+  }
+}
+
+/**
+ * Replays a trace recorded by FocusTraceRecorder against a FocusManager,
+ * typically a fresh one created with the same areas and keys, and compares
+ * the state after each operation with the recorded one.
+ *
+ * Behavior:
+ * - The starting snapshot of the trace is restored first.
+ * - Each operation is called with its recorded arguments. Arguments that
+ *   became `null` in JSON are passed as `undefined`, so that defaults apply.
+ * - `registerArea` cannot be replayed, as its area manager is not recorded:
+ *   the area must already be registered on the FocusManager, otherwise the
+ *   replay throws.
+ * - `restoreSnapshot` is replayed without `deserializeMeta`.
+ * - Timestamps, sources and selections are not compared.
+ *
+ * @param focusManager The FocusManager to replay the trace against.
+ * @param trace The recorded trace, e.g. parsed from JSON.
+ * @param options Optional `deserializeMeta` callback, the reverse of `serializeMeta`.
+ * @returns {FocusTraceReplayResult} Whether the replay matched, and the mismatches if not.
+ */
+export function replayFocusTrace<T extends Record<string, AreaFocusManager>>(
+  focusManager: FocusManager<T>,
+  trace: FocusTrace,
+  options: FocusTraceReplayOptions = {}
+): FocusTraceReplayResult {
+  const deserializeMeta = options.deserializeMeta ?? ((meta) => meta);
+  const mismatches: FocusTraceMismatch[] = [];
+
+  focusManager.restoreSnapshot(trace.snapshot, { deserializeMeta });
+
+  trace.entries.forEach((entry, index) => {
+    const args: unknown[] = entry.args.map((arg) =>
+      arg === null ? undefined : arg
+    );
+    const metaIndex = metaArgIndices[entry.operation];
+
+    if (metaIndex != null && args[metaIndex] !== undefined) {
+      args[metaIndex] = deserializeMeta(args[metaIndex], args[0] as string);
+    }
+
+    if (entry.operation === "registerArea") {
+      const area = args[0] as string;
+
+      if (!Object.prototype.hasOwnProperty.call(focusManager.areas, area)) {
+        throw new Error(
+          `replayFocusTrace: #${index} registerArea cannot be replayed. Register the area "${area}" on the FocusManager before replaying.`
+        );
+      }
+    }
+    //
+    else {
+      replayedOperations[entry.operation](focusManager, args);
+    }
+
+    const expected: FocusTraceState = {
+      area: entry.area,
+      key: entry.key,
+      keyCount: entry.keyCount,
+    };
+    const actual = getTraceState(focusManager);
+
+    const diff = (Object.keys(expected) as (keyof FocusTraceState)[]).filter(
+      (field) =>
+        field === "key"
+          ? !isSameAreaKey(expected.key, actual.key)
+          : expected[field] !== actual[field]
+    );
+
+    if (diff.length === 0) return;
+
+    const differences = diff.map(
+      (field) =>
+        `${field}: expected ${JSON.stringify(
+          expected[field]
+        )}, got ${JSON.stringify(actual[field])}`
+    );
+
+    mismatches.push({
+      index,
+      operation: entry.operation,
+      expected,
+      actual,
+      diff,
+      message: `#${index} ${entry.operation}: ${differences.join("; ")}`,
+    });
+  });
+
+  return { ok: mismatches.length === 0, mismatches };
+}
+
+function getTraceState(focusManager: FocusManager<any>): FocusTraceState {
+  const entry = focusManager.entry;
+
+  return {
+    area: entry?.area ?? null,
+    key: copyAreaKey(entry?.manager.key ?? null),
+    keyCount: entry ? getKeyCount(entry.manager) : null,
+  };
+}
+
+function getKeyCount(manager: AreaFocusManager): number | null {
+  if (manager.kind === "list") {
+    return manager.getKeyCount();
+  }
+  //
+  else if (manager.kind === "grid") {
+    return manager.getRowKeys().length;
+  }
+  //
+  else if (manager.kind === "tree") {
+    return manager.getVisibleKeys().length;
+  }
+  //
+  else if (manager.kind === "spatial") {
+    return manager.getKeys().length;
+  }
+
+  const areaManager: AreaFocusManager | undefined = manager.entry?.manager;
+
+  return areaManager ? getKeyCount(areaManager) : null;
+}
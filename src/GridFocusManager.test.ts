@@ -0,0 +1,229 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { FocusManager } from "./FocusManager";
+import { GridFocusManager } from "./GridFocusManager";
+import { ListFocusManager } from "./ListFocusManager";
+import type { GridFocusManagerProps } from "./types";
+
+function createGrid(props: Partial<GridFocusManagerProps<string>> = {}) {
+  const grid = new GridFocusManager<string>({
+    getRowKeys: () => ["r0", "r1", "r2", "r3", "r4"],
+    getColumnKeys: () => ["c0", "c1", "c2"],
+    getInitialKeyOnAreaFocus: () => ({ row: "r0", col: "c0" }),
+    ...props,
+  });
+
+  const fm = new FocusManager({
+    areas: { grid },
+    maxHistory: 10,
+  });
+
+  fm.focusArea("grid");
+
+  return { fm, grid };
+}
+
+describe("GridFocusManager arrow navigation", () => {
+  let fm: FocusManager<{ grid: GridFocusManager<string> }>;
+  let grid: GridFocusManager<string>;
+
+  beforeEach(() => {
+    ({ fm, grid } = createGrid());
+  });
+
+  it("focuses the initial cell on area focus", () => {
+    expect(grid.key).toEqual({ row: "r0", col: "c0" });
+  });
+
+  it("moves in both axes", () => {
+    fm.focusOnArrowRight();
+    expect(grid.key).toEqual({ row: "r0", col: "c1" });
+
+    fm.focusOnArrowDown();
+    expect(grid.key).toEqual({ row: "r1", col: "c1" });
+
+    fm.focusOnArrowLeft();
+    expect(grid.key).toEqual({ row: "r1", col: "c0" });
+
+    fm.focusOnArrowUp();
+    expect(grid.key).toEqual({ row: "r0", col: "c0" });
+    expect(fm.entry?.source).toBe("keyboard");
+  });
+
+  it("stops at the boundaries by default", () => {
+    fm.focusOnArrowUp();
+    fm.focusOnArrowLeft();
+    expect(grid.key).toEqual({ row: "r0", col: "c0" });
+
+    fm.focusAreaKey("grid", { row: "r4", col: "c2" });
+    fm.focusOnArrowDown();
+    fm.focusOnArrowRight();
+    expect(grid.key).toEqual({ row: "r4", col: "c2" });
+  });
+
+  it("enters at the first cell when no cell is focused", () => {
+    grid.clear();
+    fm.focusOnArrowDown();
+    expect(grid.key).toEqual({ row: "r0", col: "c0" });
+  });
+});
+
+describe("GridFocusManager in rtl", () => {
+  it("moves backward on ArrowRight and forward on ArrowLeft", () => {
+    const { fm, grid } = createGrid({ getDirection: () => "rtl" });
+
+    fm.focusOnArrowLeft();
+    expect(grid.key).toEqual({ row: "r0", col: "c1" });
+
+    fm.focusOnArrowRight();
+    expect(grid.key).toEqual({ row: "r0", col: "c0" });
+
+    fm.focusOnArrowDown();
+    expect(grid.key).toEqual({ row: "r1", col: "c0" });
+  });
+});
+
+describe("GridFocusManager wrap modes", () => {
+  it("wraps within the same row with rowWrap 'wrap'", () => {
+    const { fm, grid } = createGrid({ rowWrap: "wrap" });
+
+    fm.focusOnArrowLeft();
+    expect(grid.key).toEqual({ row: "r0", col: "c2" });
+
+    fm.focusOnArrowRight();
+    expect(grid.key).toEqual({ row: "r0", col: "c0" });
+  });
+
+  it("continues on the next and previous row with rowWrap 'flow'", () => {
+    const { fm, grid } = createGrid({ rowWrap: "flow" });
+
+    fm.focusAreaKey("grid", { row: "r1", col: "c2" });
+    fm.focusOnArrowRight();
+    expect(grid.key).toEqual({ row: "r2", col: "c0" });
+
+    fm.focusOnArrowLeft();
+    expect(grid.key).toEqual({ row: "r1", col: "c2" });
+  });
+
+  it("stops at the last cell of the grid with rowWrap 'flow'", () => {
+    const { fm, grid } = createGrid({ rowWrap: "flow" });
+
+    fm.focusAreaKey("grid", { row: "r4", col: "c2" });
+    fm.focusOnArrowRight();
+    expect(grid.key).toEqual({ row: "r4", col: "c2" });
+  });
+
+  it("wraps and flows vertically with columnWrap", () => {
+    const wrapped = createGrid({ columnWrap: "wrap" });
+    wrapped.fm.focusOnArrowUp();
+    expect(wrapped.grid.key).toEqual({ row: "r4", col: "c0" });
+
+    const flowing = createGrid({ columnWrap: "flow" });
+    flowing.fm.focusAreaKey("grid", { row: "r4", col: "c0" });
+    flowing.fm.focusOnArrowDown();
+    expect(flowing.grid.key).toEqual({ row: "r0", col: "c1" });
+  });
+});
+
+describe("GridFocusManager Home/End and paging", () => {
+  it("moves within the row on Home/End", () => {
+    const { fm, grid } = createGrid();
+
+    fm.focusAreaKey("grid", { row: "r2", col: "c1" });
+
+    fm.focusOnEnd();
+    expect(grid.key).toEqual({ row: "r2", col: "c2" });
+
+    fm.focusOnHome();
+    expect(grid.key).toEqual({ row: "r2", col: "c0" });
+  });
+
+  it("moves across the whole grid on Ctrl+Home/Ctrl+End", () => {
+    const { fm, grid } = createGrid();
+
+    fm.focusAreaKey("grid", { row: "r2", col: "c1" });
+
+    fm.focusOnEnd(true);
+    expect(grid.key).toEqual({ row: "r4", col: "c2" });
+
+    fm.focusOnHome(true);
+    expect(grid.key).toEqual({ row: "r0", col: "c0" });
+  });
+
+  it("pages by visible rows and keeps the column", () => {
+    const { fm, grid } = createGrid({
+      getFirstVisibleRowIndex: () => 0,
+      getLastVisibleRowIndex: () => 2,
+    });
+
+    fm.focusAreaKey("grid", { row: "r0", col: "c1" });
+
+    fm.focusOnPageDown();
+    expect(grid.key).toEqual({ row: "r2", col: "c1" });
+
+    fm.focusOnPageDown();
+    expect(grid.key).toEqual({ row: "r4", col: "c1" });
+
+    fm.focusOnPageUp();
+    expect(grid.key).toEqual({ row: "r0", col: "c1" });
+  });
+});
+
+describe("GridFocusManager spanned cells", () => {
+  // r1/c0 spans two columns (c0..c1), r2/c2 spans two rows (r2..r3)
+  const getCellSpan: GridFocusManagerProps<string>["getCellSpan"] = (cell) => {
+    if (cell.row === "r1" && (cell.col === "c0" || cell.col === "c1")) {
+      return { row: "r1", col: "c0", rowSpan: 1, colSpan: 2 };
+    }
+
+    if ((cell.row === "r2" || cell.row === "r3") && cell.col === "c2") {
+      return { row: "r2", col: "c2", rowSpan: 2, colSpan: 1 };
+    }
+
+    return null;
+  };
+
+  it("focuses the origin cell when landing on a covered cell", () => {
+    const { fm, grid } = createGrid({ getCellSpan });
+
+    fm.focusAreaKey("grid", { row: "r0", col: "c1" });
+    fm.focusOnArrowDown();
+    expect(grid.key).toEqual({ row: "r1", col: "c0" });
+  });
+
+  it("moves out of a span from its far edge", () => {
+    const { fm, grid } = createGrid({ getCellSpan });
+
+    fm.focusAreaKey("grid", { row: "r1", col: "c0" });
+    fm.focusOnArrowRight();
+    expect(grid.key).toEqual({ row: "r1", col: "c2" });
+
+    fm.focusAreaKey("grid", { row: "r2", col: "c2" });
+    fm.focusOnArrowDown();
+    expect(grid.key).toEqual({ row: "r4", col: "c2" });
+
+    fm.focusOnArrowUp();
+    expect(grid.key).toEqual({ row: "r2", col: "c2" });
+  });
+});
+
+describe("GridFocusManager history", () => {
+  it("restores a nearby cell when the row of the cell has been removed", () => {
+    let rowKeys = ["r0", "r1", "r2"];
+
+    const grid = new GridFocusManager<string>({
+      getRowKeys: () => rowKeys,
+      getColumnKeys: () => ["c0", "c1"],
+    });
+    const list = new ListFocusManager<string>({ getKeys: () => ["x"] });
+
+    const fm = new FocusManager({ areas: { grid, list } });
+
+    fm.focusAreaKey("grid", { row: "r1", col: "c1" });
+    fm.focusArea("list");
+
+    rowKeys = ["r0", "r2"];
+    fm.goBack();
+
+    expect(grid.key).toEqual({ row: "r2", col: "c1" });
+  });
+});
@@ -0,0 +1,437 @@
+import type { FocusManager } from "./FocusManager";
+import type {
+  FocusDirection,
+  FocusKey,
+  FocusListOrientation,
+  GridCellSpan,
+  GridFocusCell,
+  GridFocusManagerCallbackContext,
+  GridFocusManagerProps,
+  GridWrapMode,
+} from "./types";
+import { clampIndex, getPageTargetIndex, wrapIndex } from "./utils";
+
+/**
+ * GridFocusManager coordinates focus behavior within a two-dimensional "grid"-style area,
+ * following the WAI-ARIA grid pattern.
+ *
+ * Responsibilities:
+ * - Tracks the currently focused cell (`_key`) as a `{ row, col }` pair of keys.
+ * - Moves focus in both axes at once: Up/Down between rows, Left/Right between columns.
+ * - Supports Home/End within a row and Ctrl+Home/Ctrl+End across the whole grid.
+ * - Pages by visible rows on PageUp/PageDown.
+ * - Supports independent row and column wrap modes, and spanned cells.
+ *
+ * @template Meta Optional metadata type associated with focus entries.
+ */
+export class GridFocusManager<Meta = any> {
+  /**
+   * Creates a new GridFocusManager.
+   *
+   * @param props Configuration options for the manager:
+   * - `getRowKeys`: Function returning the ordered set of row keys.
+   * - `getColumnKeys`: Function returning the ordered set of column keys.
+   * - `getFirstVisibleRowIndex` / `getLastVisibleRowIndex`: Functions returning the visible row range.
+   * - `getCellSpan`: Function returning the span covering a cell, if any.
+   * - `getInitialKeyOnAreaFocus`: Function returning the initial cell when the area receives focus.
+   * - `rowWrap` / `columnWrap`: Boundary behavior for horizontal and vertical movement (default: "none").
+   * - `getDirection`: Function returning the text direction ("ltr" or "rtl").
+   * - `onEnter` / `onLeave` / `onKeyChange`: Hooks called by the parent FocusManager on focus changes.
+   */
+  constructor(props: GridFocusManagerProps<Meta>) {
+    this._getRowKeys = props.getRowKeys;
+    this._getColumnKeys = props.getColumnKeys;
+    this._getFirstVisibleRowIndex = props.getFirstVisibleRowIndex;
+    this._getLastVisibleRowIndex = props.getLastVisibleRowIndex;
+    this._getCellSpan = props.getCellSpan;
+    this._getInitialKeyOnAreaFocus = props.getInitialKeyOnAreaFocus;
+    this._rowWrap = props.rowWrap ?? "none";
+    this._columnWrap = props.columnWrap ?? "none";
+    this._getDirection = props.getDirection;
+    this._onEnter = props.onEnter;
+    this._onLeave = props.onLeave;
+    this._onKeyChange = props.onKeyChange;
+  }
+
+  kind = "grid" as const;
+
+  protected _key: GridFocusCell | null = null;
+
+  protected _getRowKeys;
+  protected _getColumnKeys;
+  protected _getFirstVisibleRowIndex;
+  protected _getLastVisibleRowIndex;
+  protected _getCellSpan;
+  protected _getInitialKeyOnAreaFocus;
+  protected _rowWrap: GridWrapMode;
+  protected _columnWrap: GridWrapMode;
+  protected _getDirection;
+  protected _onEnter;
+  protected _onLeave;
+  protected _onKeyChange;
+
+  protected _parent?: FocusManager<any>;
+
+  get parent() {
+    return this._parent;
+  }
+
+  set parent(value: FocusManager<any> | undefined) {
+    this._parent = value;
+  }
+
+  get direction(): FocusDirection {
+    return this._getDirection?.(this.getCallbackContext()) ?? "ltr";
+  }
+
+  get key() {
+    return this._key;
+  }
+
+  set key(value: GridFocusCell | null) {
+    const apply = () => {
+      this._key = value;
+    };
+
+    if (this._parent) {
+      this._parent.updateAreaKey(apply);
+    }
+    //
+    else {
+      apply();
+    }
+  }
+
+  /**
+   * Returns the ordered set of row keys for this grid,
+   * as provided by the `getRowKeys` callback.
+   *
+   * @returns {FocusKey[]} An array of row keys in UI order.
+   */
+  getRowKeys(): FocusKey[] {
+    return this._getRowKeys(this.getCallbackContext());
+  }
+
+  /**
+   * Returns the ordered set of column keys for this grid,
+   * as provided by the `getColumnKeys` callback.
+   *
+   * @returns {FocusKey[]} An array of column keys in UI order.
+   */
+  getColumnKeys(): FocusKey[] {
+    return this._getColumnKeys(this.getCallbackContext());
+  }
+
+  /**
+   * Returns whether both the row and the column of the given cell exist.
+   */
+  hasKey(cell: GridFocusCell): boolean {
+    return (
+      this.getRowKeys().includes(cell.row) &&
+      this.getColumnKeys().includes(cell.col)
+    );
+  }
+
+  /**
+   * Returns the given cell if it still exists. Otherwise returns the cell
+   * closest to it: a missing row is replaced by the row closest to `rowIndex`,
+   * the position the row had before it was removed, and a missing column by
+   * the first column.
+   *
+   * @param cell The cell to look up.
+   * @param rowIndex The last known index of the cell's row.
+   * @returns {GridFocusCell | null} The cell, or `null` if the grid is empty.
+   */
+  getNearestKey(cell: GridFocusCell, rowIndex: number): GridFocusCell | null {
+    if (this.hasKey(cell)) return cell;
+
+    const rowKeys = this.getRowKeys();
+    const colKeys = this.getColumnKeys();
+    if (rowKeys.length === 0 || colKeys.length === 0) return null;
+
+    const row = rowKeys.includes(cell.row)
+      ? cell.row
+      : rowKeys[clampIndex(rowIndex, rowKeys.length)];
+    const col = colKeys.includes(cell.col) ? cell.col : colKeys[0];
+
+    return this.resolveCell(row, col);
+  }
+
+  /**
+   * Returns the initial focus cell when this area receives focus.
+   *
+   * @returns {GridFocusCell | null} The cell that should be focused initially,
+   * or `null` if no initial cell is specified.
+   */
+  getInitialKeyOnAreaFocus() {
+    return this._getInitialKeyOnAreaFocus?.(this.getCallbackContext()) ?? null;
+  }
+
+  /**
+   * Returns the index of the first visible row in the viewport,
+   * or 0 if no callback is specified.
+   */
+  getFirstVisibleRowIndex(): number {
+    return this._getFirstVisibleRowIndex?.(this.getCallbackContext()) ?? 0;
+  }
+
+  /**
+   * Returns the index of the last visible row in the viewport,
+   * or the last row index if no callback is specified.
+   */
+  getLastVisibleRowIndex(): number {
+    const rowKeys = this.getRowKeys();
+
+    return (
+      this._getLastVisibleRowIndex?.(this.getCallbackContext()) ??
+      (rowKeys.length > 0 ? rowKeys.length - 1 : 0)
+    );
+  }
+
+  /**
+   * Returns the spanned region covering the given cell,
+   * or `null` if the cell is a regular 1×1 cell.
+   *
+   * @param cell The cell position to look up.
+   */
+  getCellSpan(cell: GridFocusCell): GridCellSpan | null {
+    return this._getCellSpan?.(cell, this.getCallbackContext()) ?? null;
+  }
+
+  /**
+   * Moves focus by one cell based on arrow key input.
+   *
+   * Movement starts from the far edge of a spanned cell, and landing on a cell
+   * covered by a span focuses the span's origin cell. At the grid boundaries,
+   * `rowWrap` (horizontal) or `columnWrap` (vertical) decides what happens.
+   *
+   * @param orientation - Axis of movement:
+   *   - `"horizontal"` for Left/Right (between columns)
+   *   - `"vertical"` for Up/Down (between rows)
+   * @param delta - Direction of movement:
+   *   - `-1` for previous (Up/Left)
+   *   - `1` for next (Down/Right)
+   */
+  focusOnArrow(orientation: FocusListOrientation, delta: -1 | 1): void {
+    const rowKeys = this.getRowKeys();
+    const colKeys = this.getColumnKeys();
+
+    if (rowKeys.length === 0 || colKeys.length === 0) return;
+
+    const region = this.getFocusedRegion(rowKeys, colKeys);
+
+    let target: [rowIndex: number, colIndex: number] | null;
+
+    if (!region) {
+      const edge = (length: number) => (delta === 1 ? 0 : length - 1);
+
+      target =
+        orientation === "horizontal"
+          ? [0, edge(colKeys.length)]
+          : [edge(rowKeys.length), 0];
+    }
+    //
+    else if (orientation === "horizontal") {
+      const nextColIndex =
+        delta === 1 ? region.colIndex + region.colSpan : region.colIndex - 1;
+
+      const step = this.step(
+        nextColIndex,
+        colKeys.length,
+        region.rowIndex,
+        rowKeys.length,
+        this._rowWrap,
+        delta
+      );
+
+      target = step && [step[1], step[0]];
+    }
+    //
+    else {
+      const nextRowIndex =
+        delta === 1 ? region.rowIndex + region.rowSpan : region.rowIndex - 1;
+
+      target = this.step(
+        nextRowIndex,
+        rowKeys.length,
+        region.colIndex,
+        colKeys.length,
+        this._columnWrap,
+        delta
+      );
+    }
+
+    if (!target) return;
+
+    this._key = this.resolveCell(rowKeys[target[0]], colKeys[target[1]]);
+  }
+
+  /**
+   * Moves focus by a page of visible rows, typically triggered by PageUp/PageDown.
+   * The column of the focused cell is preserved.
+   *
+   * Uses the same semantics as `ListFocusManager.focusOnPage`, with visibility
+   * defined by `getFirstVisibleRowIndex`/`getLastVisibleRowIndex`.
+   *
+   * @param delta - Direction of movement:
+   *   - `-1` for PageUp (previous page)
+   *   - `1` for PageDown (next page)
+   */
+  focusOnPage(delta: -1 | 1): void {
+    const rowKeys = this.getRowKeys();
+    const colKeys = this.getColumnKeys();
+
+    if (rowKeys.length === 0 || colKeys.length === 0) return;
+
+    const region = this.getFocusedRegion(rowKeys, colKeys);
+
+    const rowIndex = getPageTargetIndex(
+      region?.rowIndex ?? -1,
+      this.getFirstVisibleRowIndex(),
+      this.getLastVisibleRowIndex(),
+      rowKeys.length,
+      delta
+    );
+
+    this._key = this.resolveCell(
+      rowKeys[rowIndex],
+      colKeys[region?.colIndex ?? 0]
+    );
+  }
+
+  /**
+   * Moves focus to the first or last cell, typically triggered by Home or End keys.
+   *
+   * @param direction - Direction of movement:
+   *   - `-1`: Home → first cell
+   *   - `1`: End → last cell
+   * @param wholeGrid - When `false` (default), moves within the focused row.
+   *   When `true` (Ctrl+Home/Ctrl+End), moves to the first/last cell of the grid.
+   */
+  focusOnHomeEnd(direction: -1 | 1, wholeGrid = false): void {
+    const rowKeys = this.getRowKeys();
+    const colKeys = this.getColumnKeys();
+
+    if (rowKeys.length === 0 || colKeys.length === 0) return;
+
+    const colIndex = direction === -1 ? 0 : colKeys.length - 1;
+
+    let rowIndex: number;
+    if (wholeGrid) {
+      rowIndex = direction === -1 ? 0 : rowKeys.length - 1;
+    }
+    //
+    else {
+      rowIndex = this.getFocusedRegion(rowKeys, colKeys)?.rowIndex ?? 0;
+    }
+
+    this._key = this.resolveCell(rowKeys[rowIndex], colKeys[colIndex]);
+  }
+
+  /**
+   * Invokes the `onEnter` hook. Called by the parent FocusManager
+   * when this area becomes the active area.
+   */
+  notifyEnter(): void {
+    this._onEnter?.(this.getCallbackContext());
+  }
+
+  /**
+   * Invokes the `onLeave` hook. Called by the parent FocusManager
+   * when this area stops being the active area.
+   */
+  notifyLeave(): void {
+    this._onLeave?.(this.getCallbackContext());
+  }
+
+  /**
+   * Invokes the `onKeyChange` hook with the current key. Called by the parent
+   * FocusManager when the focused key of the active area changes.
+   *
+   * @param prevKey The focused key before the change.
+   */
+  notifyKeyChange(prevKey: GridFocusCell | null): void {
+    this._onKeyChange?.(this._key, prevKey, this.getCallbackContext());
+  }
+
+  clear() {
+    this._key = null;
+  }
+
+  /**
+   * Returns the indices and extent of the region covered by the focused cell,
+   * or `null` if no cell is focused or it is no longer part of the grid.
+   */
+  protected getFocusedRegion(rowKeys: FocusKey[], colKeys: FocusKey[]) {
+    const key = this._key;
+    if (key == null) return null;
+
+    const span = this.getCellSpan(key);
+    const origin = span ?? key;
+
+    const rowIndex = rowKeys.indexOf(origin.row);
+    const colIndex = colKeys.indexOf(origin.col);
+    if (rowIndex === -1 || colIndex === -1) return null;
+
+    return {
+      rowIndex,
+      colIndex,
+      rowSpan: Math.max(1, span?.rowSpan ?? 1),
+      colSpan: Math.max(1, span?.colSpan ?? 1),
+    };
+  }
+
+  /**
+   * Applies a wrap mode to a step along one axis.
+   *
+   * @returns The `[mainIndex, crossIndex]` target, or `null` if focus should stay put.
+   */
+  protected step(
+    mainIndex: number,
+    mainLength: number,
+    crossIndex: number,
+    crossLength: number,
+    wrap: GridWrapMode,
+    delta: -1 | 1
+  ): [mainIndex: number, crossIndex: number] | null {
+    if (mainIndex >= 0 && mainIndex < mainLength) {
+      return [mainIndex, crossIndex];
+    }
+
+    if (wrap === "wrap") {
+      return [wrapIndex(mainIndex, mainLength), crossIndex];
+    }
+
+    if (wrap === "flow") {
+      const nextCrossIndex = crossIndex + delta;
+      if (nextCrossIndex < 0 || nextCrossIndex >= crossLength) return null;
+
+      return [delta === 1 ? 0 : mainLength - 1, nextCrossIndex];
+    }
+
+    return null;
+  }
+
+  /**
+   * Maps a cell position to the cell that actually receives focus,
+   * i.e. the origin cell of the span covering it, if any.
+   */
+  protected resolveCell(row: FocusKey, col: FocusKey): GridFocusCell {
+    const span = this.getCellSpan({ row, col });
+    return span ? { row: span.row, col: span.col } : { row, col };
+  }
+
+  protected getCallbackContext(): GridFocusManagerCallbackContext<Meta> {
+    if (!this.parent) {
+      throw new Error(
+        "GridFocusManager: parent not assigned. You need to pass this area manager into FocusManager.areas."
+      );
+    }
+
+    return {
+      manager: this,
+      parent: this.parent,
+      meta: (this.parent?.entry?.meta as Meta) ?? null,
+    };
+  }
+}
@@ -1,18 +1,47 @@
 import type { FocusManager } from "./FocusManager";
 import type {
+  FocusArrowKey,
+  FocusDirection,
   FocusKey,
+  FocusListOrientation,
+  FocusWritingMode,
   ListFocusManagerCallbackContext,
   ListFocusManagerProps,
 } from "./types";
+import {
+  clampIndex,
+  getArrowDelta,
+  getPageTargetIndex,
+  resolveOrientation,
+  wrapIndex,
+} from "./utils";
+
+/**
+ * A view of the list's keys for the duration of a single operation.
+ * Index-based key sources are queried lazily, and each answer is memoized.
+ */
+type ListKeys = {
+  readonly length: number;
+  at(index: number): FocusKey;
+  indexOf(key: FocusKey): number;
+};
 
 /**
  * ListFocusManager coordinates focus behavior within a single "list"-style area.
  *
  * Responsibilities:
  * - Tracks the currently focused key (`_key`) and optional metadata (`_meta`).
- * - Provides orientation awareness (horizontal vs. vertical) for arrow and page navigation.
+ * - Provides orientation awareness (horizontal vs. vertical) for arrow and page navigation,
+ *   including text direction and logical (writing-mode relative) orientations.
+ * - Supports a flow layout in which the keys wrap into rows of `getColumnCount` items.
  * - Supports configurable wrap‑around behavior when navigating past the first/last item.
+ * - Skips disabled items during navigation, unless they are allowed to take focus.
+ * - Supports type-ahead navigation when item labels are provided.
+ * - Remembers the index of the focused key, so that focus can move to a nearby
+ *   key when the focused key is removed.
+ * - Optionally owns a ListSelectionManager that tracks the selected keys.
  * - Delegates to helper functions for key retrieval, page sizing, and initial focus selection.
+ *   Keys are provided either as an array, or one at a time by index for very large lists.
  *
  * @template Meta Optional metadata type associated with focus entries.
  */
@@ -22,33 +51,109 @@ export class ListFocusManager<Meta = any> {
    *
    * @param props Configuration options for the manager:
    * - `getKeys`: Function returning the ordered set of focusable keys in this area.
+   * - `getKeyCount` / `getKeyAt` / `getIndexOfKey`: Index-based alternative to `getKeys`
+   *   for very large lists, which avoids materializing the keys.
    * - `getPageSize`: Function returning the number of items considered a "page" for PageUp/PageDown.
-   * - `getOrientation`: Function returning the orientation ("horizontal" or "vertical").
+   * - `getOrientation`: Function returning the orientation ("horizontal", "vertical", "inline" or "block").
+   * - `getDirection`: Function returning the text direction ("ltr" or "rtl").
+   * - `getWritingMode`: Function returning the writing mode used to resolve logical orientations.
    * - `getInitialKeyOnAreaFocus`: Function returning the initial key when the area receives focus.
    * - `wrapAround`: Whether navigation should wrap around at the boundaries (default: false).
+   * - `horizontalPaging`: Whether PageUp/PageDown page through horizontal lists (default: false).
+   * - `getColumnCount`: Function returning the number of items per row, enabling a flow layout.
+   * - `isKeyDisabled`: Function returning whether an item is disabled and skipped by navigation.
+   * - `focusDisabledKeys`: Whether disabled items can still receive focus (default: false).
+   * - `getLabel`: Function returning an item's label, enabling type-ahead navigation.
+   * - `typeAheadTimeout`: Milliseconds before the type-ahead buffer resets (default: 500).
+   * - `typeAheadLocale`: Locale(s) used to compare typed characters with labels.
+   * - `getFallbackKey`: Function returning the key that replaces a focused key that no longer exists.
+   * - `selection`: The ListSelectionManager that tracks the selected keys of this list.
+   * - `onEnter` / `onLeave` / `onKeyChange`: Hooks called by the parent FocusManager on focus changes.
    *
    * The constructor wires these functions into the manager and initializes
    * orientation and wrap‑around behavior.
    */
   constructor(props: ListFocusManagerProps<Meta>) {
+    if (
+      !props.getKeys &&
+      !(props.getKeyCount && props.getKeyAt && props.getIndexOfKey)
+    ) {
+      throw new Error(
+        "ListFocusManager: no keys. You need to pass either getKeys, or getKeyCount, getKeyAt and getIndexOfKey."
+      );
+    }
+
     this._getKeys = props.getKeys;
+    this._getKeyCount = props.getKeyCount;
+    this._getKeyAt = props.getKeyAt;
+    this._getIndexOfKey = props.getIndexOfKey;
     this._getFirstVisibleIndex = props.getFirstVisibleIndex;
     this._getLastVisibleIndex = props.getLastVisibleIndex;
     this._getOrientation = props.getOrientation;
+    this._getDirection = props.getDirection;
+    this._getWritingMode = props.getWritingMode;
     this._getInitialKeyOnAreaFocus = props.getInitialKeyOnAreaFocus;
     this._wrapAround = !!props.wrapAround;
+    this._horizontalPaging = !!props.horizontalPaging;
+    this._getColumnCount = props.getColumnCount;
+    this._isKeyDisabled = props.isKeyDisabled;
+    this._focusDisabledKeys = !!props.focusDisabledKeys;
+    this._getLabel = props.getLabel;
+    this._typeAheadTimeout = props.typeAheadTimeout ?? 500;
+    this._collator = new Intl.Collator(props.typeAheadLocale, {
+      usage: "search",
+      sensitivity: "base",
+    });
+    this._getFallbackKey = props.getFallbackKey;
+    this._selection = props.selection;
+    this._onEnter = props.onEnter;
+    this._onLeave = props.onLeave;
+    this._onKeyChange = props.onKeyChange;
+
+    if (this._selection) {
+      this._selection.list = this;
+    }
   }
 
   kind = "list" as const;
 
   protected _key: FocusKey | null = null;
+  protected _keyIndex = -1;
+  /**
+   * The key found by the last `hasKey` or `getNearestKey` call and its index,
+   * so that assigning that key right after does not look it up again.
+   */
+  protected _resolvedKey: { key: FocusKey; index: number } | null = null;
 
   protected _getKeys;
+  protected _getKeyCount;
+  protected _getKeyAt;
+  protected _getIndexOfKey;
   protected _getFirstVisibleIndex;
   protected _getLastVisibleIndex;
   protected _getOrientation;
+  protected _getDirection;
+  protected _getWritingMode;
   protected _getInitialKeyOnAreaFocus;
   protected _wrapAround;
+  protected _horizontalPaging;
+  protected _getColumnCount;
+  protected _isKeyDisabled;
+  protected _focusDisabledKeys;
+  protected _getLabel;
+  protected _typeAheadTimeout;
+  protected _collator;
+  protected _getFallbackKey;
+  protected _selection;
+  protected _onEnter;
+  protected _onLeave;
+  protected _onKeyChange;
+
+  /** The column kept by row moves in a flow layout, while `key` is still the key they focused. */
+  protected _flowColumn: { key: FocusKey; column: number } | null = null;
+
+  protected _typeAheadBuffer = "";
+  protected _typeAheadTime = 0;
 
   protected _parent?: FocusManager<any>;
 
@@ -60,8 +165,26 @@ export class ListFocusManager<Meta = any> {
     this._parent = value;
   }
 
-  get orientation() {
-    return this._getOrientation?.(this.getCallbackContext()) ?? "vertical";
+  /**
+   * The physical orientation of the list, with logical `"inline"`/`"block"`
+   * orientations resolved through the writing mode.
+   */
+  get orientation(): FocusListOrientation {
+    const axis =
+      this._getOrientation?.(this.getCallbackContext()) ?? "vertical";
+    return resolveOrientation(axis, this.writingMode);
+  }
+
+  get direction(): FocusDirection {
+    return this._getDirection?.(this.getCallbackContext()) ?? "ltr";
+  }
+
+  get writingMode(): FocusWritingMode {
+    return this._getWritingMode?.(this.getCallbackContext()) ?? "horizontal-tb";
+  }
+
+  get selection() {
+    return this._selection;
   }
 
   get key() {
@@ -69,17 +192,57 @@ export class ListFocusManager<Meta = any> {
   }
 
   set key(value: FocusKey | null) {
-    this._key = value;
+    const apply = () => {
+      const resolved = this._resolvedKey;
+      this._resolvedKey = null;
+
+      this._key = value;
+
+      if (value == null || !this._parent) {
+        this._keyIndex = -1;
+      }
+      //
+      else if (resolved?.key === value) {
+        this._keyIndex = resolved.index;
+      }
+      //
+      else {
+        this._keyIndex = this.getKeyIndex(value);
+      }
+    };
+
+    if (this._parent) {
+      // notifies the subscribers of the parent also for direct assignments
+      this._parent.updateAreaKey(apply);
+    }
+    //
+    else {
+      apply();
+    }
   }
 
   /**
    * Returns the ordered set of focusable keys for this area,
    * as provided by the `getKeys` callback.
    *
+   * With an index-based key source, the keys are collected through `getKeyAt`;
+   * prefer `getKeyCount` and `getKeyIndex` for very large lists.
+   *
    * @returns {FocusKey[]} An array of focusable keys in UI order.
    */
   getKeys(): FocusKey[] {
-    return this._getKeys(this.getCallbackContext());
+    if (this._getKeys) return this._getKeys(this.getCallbackContext());
+
+    const keys = this.getKeyList();
+
+    return Array.from({ length: keys.length }, (_, index) => keys.at(index));
+  }
+
+  /**
+   * Returns the number of keys in this area.
+   */
+  getKeyCount(): number {
+    return this.getKeyList().length;
   }
 
   /**
@@ -89,8 +252,102 @@ export class ListFocusManager<Meta = any> {
    * @returns {number} The index of the key, or -1 if the key is not found.
    */
   getKeyIndex(key: FocusKey): number {
-    const keys = this.getKeys();
-    return keys.indexOf(key);
+    return this.getKeyList().indexOf(key);
+  }
+
+  /**
+   * Returns the index of each of the given keys, or -1 for keys that are not
+   * found. Cheaper than calling `getKeyIndex` for each key.
+   *
+   * @param keys The keys to look up.
+   * @returns {number[]} The indices, in the order of `keys`.
+   */
+  getKeyIndices(keys: FocusKey[]): number[] {
+    if (this._getKeys) {
+      const indices = new Map<FocusKey, number>();
+
+      this._getKeys(this.getCallbackContext()).forEach((key, index) => {
+        if (!indices.has(key)) indices.set(key, index);
+      });
+
+      return keys.map((key) => indices.get(key) ?? -1);
+    }
+
+    const keyList = this.getKeyList();
+
+    return keys.map((key) => keyList.indexOf(key));
+  }
+
+  /**
+   * Returns the keys from `start` up to, but not including, `end`,
+   * without materializing the other keys of an index-based key source.
+   *
+   * @param start The index of the first key.
+   * @param end The index after the last key.
+   * @returns {FocusKey[]} The keys in UI order.
+   */
+  sliceKeys(start: number, end: number): FocusKey[] {
+    const keys = this.getKeyList();
+    const keysLen = keys.length;
+
+    const slice: FocusKey[] = [];
+
+    for (let i = Math.max(start, 0); i < Math.min(end, keysLen); i++) {
+      slice.push(keys.at(i));
+    }
+
+    return slice;
+  }
+
+  /**
+   * Returns whether the given key is one of the focusable keys.
+   */
+  hasKey(key: FocusKey): boolean {
+    const index = this.getKeyIndex(key);
+    this._resolvedKey = index !== -1 ? { key, index } : null;
+
+    return index !== -1;
+  }
+
+  /**
+   * Returns the given key if it still exists. Otherwise returns the focusable
+   * key closest to `index`, the position the key had before it was removed,
+   * preferring the key that took its place.
+   *
+   * @param key The key to look up.
+   * @param index The last known index of the key.
+   * @returns {FocusKey | null} The key, or `null` if no key can take focus.
+   */
+  getNearestKey(key: FocusKey, index: number): FocusKey | null {
+    const keys = this.getKeyList();
+    const keyIndex = keys.indexOf(key);
+
+    const nearestIndex =
+      keyIndex !== -1 ? keyIndex : this.findReplacementIndex(keys, index);
+    if (nearestIndex === -1) return null;
+
+    const nearestKey = keys.at(nearestIndex);
+    this._resolvedKey = { key: nearestKey, index: nearestIndex };
+
+    return nearestKey;
+  }
+
+  /**
+   * Replaces the focused key if it is no longer returned by `getKeys()`,
+   * e.g. because it was deleted or filtered out.
+   *
+   * - The replacement is returned by `getFallbackKey`, or defaults to the key
+   *   that took the removed key's place, or the previous key if the removed
+   *   key was the last one. Disabled keys are skipped.
+   * - Arrow, page and type-ahead navigation reconcile automatically, so that
+   *   they continue from the removed key's last known position.
+   *
+   * Call `FocusManager.reconcile` instead to notify hooks and subscribers.
+   *
+   * @returns {boolean} True if the focused key was replaced.
+   */
+  reconcile(): boolean {
+    return this.reconcileKeys(this.getKeyList());
   }
 
   /**
@@ -112,12 +369,39 @@ export class ListFocusManager<Meta = any> {
    *
    * Delegates to the `getInitialKeyOnAreaFocus` callback provided in the
    * constructor props. If no callback is defined, this method returns `null`.
+   * If the returned key is disabled and cannot take focus, the next enabled
+   * key is returned instead, or the previous one if there is none after it.
    *
    * @returns {FocusKey | null} The key that should be focused initially,
    * or `null` if no initial key is specified.
    */
-  getInitialKeyOnAreaFocus() {
-    return this._getInitialKeyOnAreaFocus?.(this.getCallbackContext()) ?? null;
+  getInitialKeyOnAreaFocus(): FocusKey | null {
+    const ctx = this.getCallbackContext();
+
+    const key = this._getInitialKeyOnAreaFocus?.(ctx) ?? null;
+    if (key == null || this.canFocusKey(key, ctx)) return key;
+
+    const keys = this.getKeyList();
+    const index = keys.indexOf(key);
+    if (index === -1) return key;
+
+    let targetIndex = this.findFocusableIndex(keys, index + 1, 1, false, ctx);
+    if (targetIndex === -1) {
+      targetIndex = this.findFocusableIndex(keys, index - 1, -1, false, ctx);
+    }
+
+    return targetIndex !== -1 ? keys.at(targetIndex) : null;
+  }
+
+  /**
+   * Returns whether the given key is disabled, as reported by the
+   * `isKeyDisabled` callback. Returns `false` if no callback is defined.
+   *
+   * @param key The key to check.
+   * @returns {boolean} True if the key is disabled.
+   */
+  isKeyDisabled(key: FocusKey): boolean {
+    return !!this._isKeyDisabled?.(key, this.getCallbackContext());
   }
 
   /**
@@ -144,44 +428,202 @@ export class ListFocusManager<Meta = any> {
    * or the last key index if no callback is specified.
    */
   getLastVisibleIndex(): number {
-    const keys = this._getKeys(this.getCallbackContext());
+    return this.getLastVisibleIndexOf(this.getKeyList());
+  }
 
-    return (
-      this._getLastVisibleIndex?.(this.getCallbackContext()) ??
-      (keys.length > 0 ? keys.length - 1 : 0)
+  /**
+   * Returns whether the keys wrap into rows, see `getColumnCount`.
+   */
+  get isFlowLayout(): boolean {
+    return !!this._getColumnCount;
+  }
+
+  /**
+   * Returns the number of items per row in a flow layout, or 1 otherwise.
+   */
+  getColumnCount(): number {
+    const columnCount = this._getColumnCount?.(this.getCallbackContext()) ?? 1;
+    return Math.max(1, Math.floor(columnCount));
+  }
+
+  /**
+   * Resolves a physical arrow key to a movement delta for `focusOnArrow`,
+   * taking the orientation, text direction and writing mode into account.
+   * In a flow layout, items follow the inline axis of the writing mode.
+   *
+   * @param arrow The arrow key that was pressed.
+   * @returns {-1 | 1 | null} The delta, or null if the arrow key is not
+   * meaningful for this list's orientation.
+   */
+  getArrowDelta(arrow: FocusArrowKey): -1 | 1 | null {
+    const writingMode = this.writingMode;
+    const orientation = this.isFlowLayout
+      ? resolveOrientation("inline", writingMode)
+      : this.orientation;
+
+    return getArrowDelta(arrow, orientation, this.direction, writingMode);
+  }
+
+  /**
+   * Resolves a physical arrow key to a row delta for `focusOnRow`, along the
+   * block axis of the writing mode.
+   *
+   * @param arrow The arrow key that was pressed.
+   * @returns {-1 | 1 | null} The delta, or null if the list does not have a
+   * flow layout or the arrow key moves within a row.
+   */
+  getRowArrowDelta(arrow: FocusArrowKey): -1 | 1 | null {
+    if (!this.isFlowLayout) return null;
+
+    const writingMode = this.writingMode;
+
+    return getArrowDelta(
+      arrow,
+      resolveOrientation("block", writingMode),
+      this.direction,
+      writingMode
     );
   }
 
   /**
-   * Moves focus by one step in the list based on arrow key input.
+   * Moves focus for an arrow key: by one item along the list, or by one row
+   * in a flow layout.
+   *
+   * @param arrow The arrow key that was pressed.
+   * @returns {boolean} False if the arrow key is not meaningful for this list.
+   */
+  focusOnArrowKey(arrow: FocusArrowKey): boolean {
+    const delta = this.getArrowDelta(arrow);
+
+    if (delta != null) {
+      this.focusOnArrow(delta);
+      return true;
+    }
+
+    const rowDelta = this.getRowArrowDelta(arrow);
+    if (rowDelta == null) return false;
+
+    this.focusOnRow(rowDelta);
+    return true;
+  }
+
+  /**
+   * Moves focus by one step in the list based on arrow key input,
+   * skipping disabled items. If there is no enabled item in that direction,
+   * focus stays put.
    *
    * @param delta - Direction of movement:
    *   - `-1` for previous (Up/Left depending on orientation)
    *   - `1` for next (Down/Right depending on orientation)
    */
   focusOnArrow(delta: -1 | 1): void {
-    const keys = this.getKeys();
+    const keys = this.getKeyList();
+    const lastIndex = this._keyIndex;
+
+    if (this.reconcileKeys(keys)) {
+      // the key that replaced the removed key may already be the target
+      const index = this._keyIndex;
+      if (delta === 1 ? index >= lastIndex : index < lastIndex) return;
+    }
 
     const keysLen = keys.length;
 
     if (keysLen === 0) return;
 
-    const currentKey = this._key;
-    const currentIndex = currentKey != null ? keys.indexOf(currentKey) : -1;
+    const currentIndex = this._key != null ? this._keyIndex : -1;
+
+    const ctx = this.getCallbackContext();
 
     let targetIndex: number;
     if (currentIndex === -1) {
-      targetIndex = delta === 1 ? 0 : keysLen - 1;
+      const edgeIndex = delta === 1 ? 0 : keysLen - 1;
+      targetIndex = this.findFocusableIndex(keys, edgeIndex, delta, false, ctx);
     }
     //
     else {
-      const nextIndex = currentIndex + delta;
-      targetIndex = this._wrapAround
-        ? this.wrapIndex(nextIndex, keysLen)
-        : this.clampIndex(nextIndex, keysLen);
+      targetIndex = this.findFocusableIndex(
+        keys,
+        currentIndex + delta,
+        delta,
+        this._wrapAround,
+        ctx
+      );
     }
 
-    this._key = keys[targetIndex];
+    if (targetIndex === -1) return;
+
+    this.setKeyAt(keys, targetIndex);
+  }
+
+  /**
+   * Moves focus by one row in a flow layout, keeping the column, and skipping
+   * disabled items. The last item of a shorter last row stands in for the
+   * columns it is missing.
+   *
+   * @param delta - Direction of movement:
+   *   - `-1` for the previous row
+   *   - `1` for the next row
+   */
+  focusOnRow(delta: -1 | 1): void {
+    const keys = this.getKeyList();
+
+    this.reconcileKeys(keys);
+
+    const keysLen = keys.length;
+
+    if (keysLen === 0) return;
+
+    const ctx = this.getCallbackContext();
+    const currentIndex = this._key != null ? this._keyIndex : -1;
+
+    if (currentIndex === -1) {
+      const edgeIndex = delta === 1 ? 0 : keysLen - 1;
+      const targetIndex = this.findFocusableIndex(
+        keys,
+        edgeIndex,
+        delta,
+        false,
+        ctx
+      );
+
+      if (targetIndex !== -1) this.setKeyAt(keys, targetIndex);
+      return;
+    }
+
+    const columnCount = this.getColumnCount();
+    const rowCount = Math.ceil(keysLen / columnCount);
+    const column = this.getFlowColumn(currentIndex, columnCount);
+
+    let row = Math.floor(currentIndex / columnCount);
+
+    for (let i = 1; i < rowCount; i++) {
+      row += delta;
+
+      if (row < 0 || row > rowCount - 1) {
+        if (!this._wrapAround) return;
+        row = this.wrapIndex(row, rowCount);
+      }
+
+      const index = Math.min(row * columnCount + column, keysLen - 1);
+
+      if (this.canFocusKey(keys.at(index), ctx)) {
+        this.setFlowKeyAt(keys, index, column);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Returns whether PageUp/PageDown apply to this list: always for vertical
+   * lists and flow layouts, and for horizontal lists if `horizontalPaging`
+   * is enabled.
+   */
+  canPage(): boolean {
+    return (
+      this.isFlowLayout ||
+      this.orientation !== "horizontal" ||
+      this._horizontalPaging
+    );
   }
 
   /**
@@ -199,74 +641,432 @@ export class ListFocusManager<Meta = any> {
    *     so the old bottom becomes the new top.
    *
    * Visibility is defined by the application via getFirstVisibleIndex/getLastVisibleIndex.
+   * If the target item is disabled, focus moves to the nearest enabled item,
+   * preferring the one closer to the current position.
+   *
+   * In horizontal lists (see `horizontalPaging`), the top and bottom items are
+   * the first and last visible items in reading order. In right-to-left text
+   * the delta is flipped, as with the arrow keys: PageDown moves toward the
+   * start of the list, i.e. rightward, and PageUp toward its end.
+   *
+   * In a flow layout, pages are made of the visible rows, and the column
+   * is kept as with `focusOnRow`.
    *
    * @param delta - Direction of movement:
    *   - `-1` for PageUp (previous page)
    *   - `1` for PageDown (next page)
    */
   focusOnPage(delta: -1 | 1): void {
-    const keys = this.getKeys();
-    if (keys.length === 0) return;
+    const keys = this.getKeyList();
 
-    const currentIndex = this._key != null ? keys.indexOf(this._key) : -1;
-    const firstVisible = this.getFirstVisibleIndex();
-    const lastVisible = this.getLastVisibleIndex();
-    const visibleCount = Math.max(1, lastVisible - firstVisible + 1);
+    this.reconcileKeys(keys);
 
-    let targetIndex: number;
+    if (keys.length === 0) return;
 
-    if (delta === -1) {
-      if (currentIndex > firstVisible) {
-        targetIndex = firstVisible;
-      }
-      //
-      else {
-        targetIndex = Math.max(0, firstVisible - visibleCount + 1);
-      }
-    }
-    //
-    else {
-      if (currentIndex < lastVisible) {
-        targetIndex = lastVisible;
-      }
-      //
-      else {
-        targetIndex = Math.min(keys.length - 1, lastVisible + visibleCount - 1);
-      }
+    if (
+      !this.isFlowLayout &&
+      this.orientation === "horizontal" &&
+      this.direction === "rtl"
+    ) {
+      delta = -delta as -1 | 1;
     }
 
-    this._key = keys[targetIndex];
+    const currentIndex = this._key != null ? this._keyIndex : -1;
+
+    const columnCount = this.getColumnCount();
+    const column =
+      currentIndex !== -1 ? this.getFlowColumn(currentIndex, columnCount) : 0;
+
+    const pageRow = getPageTargetIndex(
+      currentIndex !== -1 ? Math.floor(currentIndex / columnCount) : -1,
+      Math.floor(this.getFirstVisibleIndex() / columnCount),
+      Math.floor(this.getLastVisibleIndexOf(keys) / columnCount),
+      Math.ceil(keys.length / columnCount),
+      delta
+    );
+    const pageIndex = Math.min(pageRow * columnCount + column, keys.length - 1);
+
+    const targetIndex = this.findNearestFocusableIndex(keys, pageIndex, delta);
+    if (targetIndex === -1) return;
+
+    this.setFlowKeyAt(keys, targetIndex, column);
   }
 
   /**
-   * Moves focus directly to the first or last item in the list,
-   * typically triggered by Home or End keys.
+   * Moves focus directly to the first or last enabled item in the list,
+   * typically triggered by Home or End keys. In a flow layout, focus moves
+   * within the focused row unless `ctrlKey` is set.
    *
    * @param direction - Direction of movement:
    *   - `-1`: Home → first item
    *   - `1`: End → last item
+   * @param ctrlKey Whether Ctrl was held, which moves within the whole list
+   * in a flow layout.
    */
-  focusOnHomeEnd(direction: -1 | 1): void {
-    const keys = this.getKeys();
+  focusOnHomeEnd(direction: -1 | 1, ctrlKey = false): void {
+    const keys = this.getKeyList();
 
     const keysLen = keys.length;
 
     if (keysLen === 0) return;
 
-    const targetIndex = direction === -1 ? 0 : keysLen - 1;
-    this._key = keys[targetIndex];
+    let startIndex = 0;
+    let endIndex = keysLen - 1;
+
+    if (this.isFlowLayout && !ctrlKey) {
+      this.reconcileKeys(keys);
+
+      const currentIndex = this._key != null ? this._keyIndex : -1;
+
+      if (currentIndex !== -1) {
+        const columnCount = this.getColumnCount();
+
+        startIndex = currentIndex - (currentIndex % columnCount);
+        endIndex = Math.min(startIndex + columnCount, keysLen) - 1;
+      }
+    }
+
+    const ctx = this.getCallbackContext();
+
+    // scans inward from the edge, within [startIndex, endIndex]
+    for (let i = 0; i <= endIndex - startIndex; i++) {
+      const index = direction === -1 ? startIndex + i : endIndex - i;
+
+      if (this.canFocusKey(keys.at(index), ctx)) {
+        this.setKeyAt(keys, index);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Moves focus to the next item whose label starts with the typed characters,
+   * typically triggered by printable key presses (type-to-select).
+   *
+   * Semantics:
+   * - Characters typed within `typeAheadTimeout` of each other build up a
+   *   search buffer; a longer pause starts a new search.
+   * - Labels are matched by prefix using `Intl.Collator`, ignoring case and accents.
+   * - Typing the same character repeatedly cycles through the items starting
+   *   with that character.
+   * - A search for a single (or repeated) character starts after the focused key;
+   *   a longer search starts at the focused key, so focus stays put while it still matches.
+   * - The search wraps past the last item only if `wrapAround` is enabled.
+   *
+   * Does nothing if no `getLabel` callback was provided.
+   *
+   * @param char The typed character.
+   * @returns {boolean} True if the character was consumed by the search,
+   * false if type-ahead is disabled or a leading space was ignored.
+   */
+  focusOnCharacter(char: string): boolean {
+    if (!this._getLabel || char === "") return false;
+
+    const now = Date.now();
+
+    if (now - this._typeAheadTime > this._typeAheadTimeout) {
+      this._typeAheadBuffer = "";
+    }
+
+    // a leading space is not part of a search, it usually selects the item
+    if (this._typeAheadBuffer === "" && char.trim() === "") return false;
+
+    this._typeAheadTime = now;
+    this._typeAheadBuffer += char;
+
+    const keys = this.getKeyList();
+
+    this.reconcileKeys(keys);
+
+    const keysLen = keys.length;
+
+    if (keysLen === 0) return true;
+
+    const buffer = this._typeAheadBuffer;
+    const isRepeat = Array.from(buffer).every(
+      (c) => this._collator.compare(c, char) === 0
+    );
+    const query = isRepeat ? char : buffer;
+
+    const currentIndex = this._key != null ? this._keyIndex : -1;
+    const startIndex = isRepeat ? currentIndex + 1 : Math.max(0, currentIndex);
+
+    const ctx = this.getCallbackContext();
+
+    for (let i = 0; i < keysLen; i++) {
+      let index = startIndex + i;
+
+      if (index >= keysLen) {
+        if (!this._wrapAround) return true;
+        index -= keysLen;
+      }
+
+      const key = keys.at(index);
+
+      if (!this.canFocusKey(key, ctx)) continue;
+
+      const label = this._getLabel(key, ctx);
+
+      if (this.matchesTypeAhead(label, query)) {
+        this.setKeyAt(keys, index);
+        return true;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Invokes the `onEnter` hook. Called by the parent FocusManager
+   * when this area becomes the active area.
+   */
+  notifyEnter(): void {
+    this._onEnter?.(this.getCallbackContext());
+  }
+
+  /**
+   * Invokes the `onLeave` hook. Called by the parent FocusManager
+   * when this area stops being the active area.
+   */
+  notifyLeave(): void {
+    this._onLeave?.(this.getCallbackContext());
+  }
+
+  /**
+   * Invokes the `onKeyChange` hook with the current key, and lets the selection
+   * follow focus. Called by the parent FocusManager when the focused key of
+   * the active area changes.
+   *
+   * @param prevKey The focused key before the change.
+   */
+  notifyKeyChange(prevKey: FocusKey | null): void {
+    this._selection?.notifyFocus(this._key);
+    this._onKeyChange?.(this._key, prevKey, this.getCallbackContext());
   }
 
   clear() {
     this._key = null;
+    this._keyIndex = -1;
+    this._resolvedKey = null;
+    this._flowColumn = null;
+    this._typeAheadBuffer = "";
+  }
+
+  protected setKeyAt(keys: ListKeys, index: number) {
+    this._key = index !== -1 ? keys.at(index) : null;
+    this._keyIndex = index;
+  }
+
+  /**
+   * Focuses the key at `index` after a row move, remembering the column that
+   * was kept so that it survives a detour through a shorter last row.
+   */
+  protected setFlowKeyAt(keys: ListKeys, index: number, column: number) {
+    this.setKeyAt(keys, index);
+
+    if (this.isFlowLayout) {
+      this._flowColumn = { key: keys.at(index), column };
+    }
+  }
+
+  /**
+   * Returns the column kept by row moves: the remembered column while the key
+   * focused by the last row move is still focused, or the current column.
+   */
+  protected getFlowColumn(currentIndex: number, columnCount: number): number {
+    if (this._flowColumn && this._flowColumn.key === this._key) {
+      return Math.min(this._flowColumn.column, columnCount - 1);
+    }
+
+    return currentIndex % columnCount;
+  }
+
+  /**
+   * Returns a view of the keys for a single operation, see `ListKeys`.
+   * `getKeys` is called immediately; index-based callbacks only when needed.
+   */
+  protected getKeyList(): ListKeys {
+    const ctx = this.getCallbackContext();
+    // a new view may see different keys
+    this._resolvedKey = null;
+
+    if (this._getKeys) {
+      const keys = this._getKeys(ctx);
+
+      return {
+        length: keys.length,
+        at: (index) => keys[index],
+        indexOf: (key) => keys.indexOf(key),
+      };
+    }
+
+    // the constructor ensures that all index-based callbacks are provided
+    const getKeyCount = this._getKeyCount!;
+    const getKeyAt = this._getKeyAt!;
+    const getIndexOfKey = this._getIndexOfKey!;
+
+    let count: number | undefined;
+    const keysByIndex = new Map<number, FocusKey>();
+    const indicesByKey = new Map<FocusKey, number>();
+
+    return {
+      get length() {
+        count ??= getKeyCount(ctx);
+        return count;
+      },
+      at(index) {
+        let key = keysByIndex.get(index);
+
+        if (key === undefined) {
+          key = getKeyAt(index, ctx);
+          keysByIndex.set(index, key);
+        }
+
+        return key;
+      },
+      indexOf(key) {
+        let index = indicesByKey.get(key);
+
+        if (index === undefined) {
+          index = getIndexOfKey(key, ctx);
+          indicesByKey.set(key, index);
+        }
+
+        return index;
+      },
+    };
+  }
+
+  /**
+   * Replaces the focused key if it is missing from `keys`, see `reconcile`,
+   * and updates the remembered index of the focused key.
+   */
+  protected reconcileKeys(keys: ListKeys): boolean {
+    const key = this._key;
+    if (key == null) return false;
+
+    const index = keys.indexOf(key);
+
+    if (index !== -1) {
+      this._keyIndex = index;
+      return false;
+    }
+
+    const lastIndex = this._keyIndex;
+
+    if (this._getFallbackKey) {
+      const fallbackKey = this._getFallbackKey(
+        key,
+        lastIndex,
+        this.getCallbackContext()
+      );
+
+      this._key = fallbackKey;
+      this._keyIndex = fallbackKey != null ? keys.indexOf(fallbackKey) : -1;
+    }
+    //
+    else {
+      this.setKeyAt(keys, this.findReplacementIndex(keys, lastIndex));
+    }
+
+    return true;
+  }
+
+  /**
+   * Returns the index of the key that replaces a removed key last seen at
+   * `index`: the key that took its place, or the previous one. Returns -1 if
+   * no key can take focus.
+   */
+  protected findReplacementIndex(keys: ListKeys, index: number): number {
+    if (keys.length === 0) return -1;
+
+    return this.findNearestFocusableIndex(
+      keys,
+      this.clampIndex(index, keys.length),
+      -1
+    );
+  }
+
+  protected getLastVisibleIndexOf(keys: ListKeys): number {
+    if (this._getLastVisibleIndex) {
+      return this._getLastVisibleIndex(this.getCallbackContext());
+    }
+
+    return keys.length > 0 ? keys.length - 1 : 0;
+  }
+
+  protected canFocusKey(
+    key: FocusKey,
+    ctx: ListFocusManagerCallbackContext<Meta>
+  ): boolean {
+    return this._focusDisabledKeys || !this._isKeyDisabled?.(key, ctx);
+  }
+
+  /**
+   * Scans the keys from `startIndex` (inclusive) in the direction of `delta`
+   * and returns the index of the first key that can take focus, or -1 if none.
+   */
+  protected findFocusableIndex(
+    keys: ListKeys,
+    startIndex: number,
+    delta: -1 | 1,
+    wrap: boolean,
+    ctx: ListFocusManagerCallbackContext<Meta>
+  ): number {
+    const keysLen = keys.length;
+
+    for (let i = 0; i < keysLen; i++) {
+      let index = startIndex + i * delta;
+
+      if (wrap) {
+        index = this.wrapIndex(index, keysLen);
+      }
+      //
+      else if (index < 0 || index > keysLen - 1) {
+        return -1;
+      }
+
+      if (this.canFocusKey(keys.at(index), ctx)) return index;
+    }
+
+    return -1;
+  }
+
+  /**
+   * Returns the index of the key closest to `index` that can take focus,
+   * preferring the side opposite to `delta` on ties, or -1 if none.
+   */
+  protected findNearestFocusableIndex(
+    keys: ListKeys,
+    index: number,
+    delta: -1 | 1
+  ): number {
+    const ctx = this.getCallbackContext();
+
+    for (let distance = 0; distance < keys.length; distance++) {
+      for (const candidate of [
+        index - distance * delta,
+        index + distance * delta,
+      ]) {
+        if (candidate < 0 || candidate > keys.length - 1) continue;
+        if (this.canFocusKey(keys.at(candidate), ctx)) return candidate;
+      }
+    }
+
+    return -1;
+  }
+
+  protected matchesTypeAhead(label: string, query: string): boolean {
+    const prefix = label.trimStart().slice(0, query.length);
+    return this._collator.compare(prefix, query) === 0;
   }
 
   protected clampIndex(index: number, keysLength: number): number {
-    return Math.max(0, Math.min(keysLength - 1, index));
+    return clampIndex(index, keysLength);
   }
 
   protected wrapIndex(index: number, keysLength: number): number {
-    return (index + keysLength) % keysLength;
+    return wrapIndex(index, keysLength);
   }
 
   protected getCallbackContext(): ListFocusManagerCallbackContext<Meta> {
@@ -0,0 +1,242 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { FocusManager } from "./FocusManager";
+import { ListFocusManager } from "./ListFocusManager";
+import { ListSelectionManager } from "./ListSelectionManager";
+import type { FocusKeyboardEvent, ListSelectionManagerProps } from "./types";
+
+const keyDown = (
+  key: string,
+  init: Partial<FocusKeyboardEvent> = {}
+): FocusKeyboardEvent => ({
+  key,
+  code: "",
+  ctrlKey: false,
+  altKey: false,
+  shiftKey: false,
+  metaKey: false,
+  ...init,
+});
+
+const shift = (key: string) => keyDown(key, { shiftKey: true });
+
+describe("ListSelectionManager", () => {
+  let keys: string[];
+  let disabled: Set<string>;
+  let selection: ListSelectionManager;
+  let list: ListFocusManager;
+  let fm: FocusManager<{ list: ListFocusManager }>;
+
+  const setup = (props: ListSelectionManagerProps = {}) => {
+    selection = new ListSelectionManager(props);
+
+    list = new ListFocusManager({
+      getKeys: () => keys,
+      getInitialKeyOnAreaFocus: () => keys[0],
+      isKeyDisabled: (key) => disabled.has(key as string),
+      getFirstVisibleIndex: () => 0,
+      getLastVisibleIndex: () => 2,
+      selection,
+    });
+
+    fm = new FocusManager({ areas: { list } });
+    fm.focusArea("list");
+  };
+
+  beforeEach(() => {
+    keys = ["a", "b", "c", "d", "e"];
+    disabled = new Set();
+  });
+
+  it("extends a range from the anchor with Shift+Arrow", () => {
+    setup();
+
+    expect(fm.handleKeyDown(shift("ArrowDown")).handled).toBe(true);
+    fm.handleKeyDown(shift("ArrowDown"));
+
+    expect(list.key).toBe("c");
+    expect(selection.anchor).toBe("a");
+    expect(selection.getSelectedKeys()).toEqual(["a", "b", "c"]);
+
+    fm.handleKeyDown(shift("ArrowUp"));
+
+    expect(selection.getSelectedKeys()).toEqual(["a", "b"]);
+  });
+
+  it("extends to the boundaries with Shift+Home/End and Shift+PageUp/PageDown", () => {
+    setup();
+
+    fm.focusAreaKey("list", "b");
+    fm.handleKeyDown(keyDown(" ", { code: "Space", ctrlKey: true }));
+
+    fm.handleKeyDown(shift("End"));
+    expect(selection.getSelectedKeys()).toEqual(["b", "c", "d", "e"]);
+
+    fm.handleKeyDown(shift("Home"));
+    expect(selection.getSelectedKeys()).toEqual(["a", "b"]);
+
+    fm.handleKeyDown(shift("PageDown"));
+    expect(list.key).toBe("c");
+    expect(selection.getSelectedKeys()).toEqual(["b", "c"]);
+  });
+
+  it("toggles the focused key with Ctrl+Space and moves the anchor", () => {
+    setup();
+
+    fm.handleKeyDown(keyDown(" ", { code: "Space", ctrlKey: true }));
+    fm.focusOnArrowDown();
+    fm.focusOnArrowDown();
+    fm.handleKeyDown(keyDown(" ", { code: "Space", ctrlKey: true }));
+
+    expect(selection.getSelectedKeys()).toEqual(["a", "c"]);
+    expect(selection.anchor).toBe("c");
+
+    fm.handleKeyDown(keyDown(" ", { code: "Space", ctrlKey: true }));
+
+    expect(selection.getSelectedKeys()).toEqual(["a"]);
+  });
+
+  it("selects all enabled keys with Ctrl+A", () => {
+    disabled.add("d");
+    setup();
+
+    const result = fm.handleKeyDown(
+      keyDown("a", { code: "KeyA", ctrlKey: true })
+    );
+
+    expect(result).toEqual({
+      action: "selectAll",
+      handled: true,
+      changed: false,
+    });
+    expect(selection.getSelectedKeys()).toEqual(["a", "b", "c", "e"]);
+  });
+
+  it("skips disabled keys inside a range", () => {
+    disabled.add("b");
+    setup();
+
+    fm.handleKeyDown(shift("ArrowDown"));
+
+    expect(list.key).toBe("c");
+    expect(selection.getSelectedKeys()).toEqual(["a", "c"]);
+  });
+
+  it("keeps the selection on plain focus moves in multiple mode", () => {
+    setup();
+
+    selection.selectOnly("a");
+    fm.focusOnArrowDown();
+
+    expect(selection.getSelectedKeys()).toEqual(["a"]);
+  });
+
+  it("selects the focused key on plain focus moves in followFocus mode", () => {
+    setup({ mode: "followFocus" });
+
+    fm.focusOnArrowDown();
+    expect(selection.getSelectedKeys()).toEqual(["b"]);
+    expect(selection.anchor).toBe("b");
+
+    fm.handleKeyDown(shift("ArrowDown"));
+    expect(selection.getSelectedKeys()).toEqual(["b", "c"]);
+
+    fm.focusOnArrowDown();
+    expect(selection.getSelectedKeys()).toEqual(["d"]);
+  });
+
+  it("selects at most one key in single mode", () => {
+    setup({ mode: "single" });
+
+    fm.handleKeyDown(keyDown(" ", { code: "Space", ctrlKey: true }));
+    fm.handleKeyDown(shift("ArrowDown"));
+
+    expect(list.key).toBe("b");
+    expect(selection.getSelectedKeys()).toEqual(["a"]);
+
+    fm.handleKeyDown(keyDown(" ", { code: "Space", ctrlKey: true }));
+    expect(selection.getSelectedKeys()).toEqual(["b"]);
+
+    expect(
+      fm.handleKeyDown(keyDown("a", { code: "KeyA", ctrlKey: true })).handled
+    ).toBe(false);
+  });
+
+  it("leaves selection keys unhandled in lists without a selection", () => {
+    list = new ListFocusManager({ getKeys: () => keys });
+    const plain = new FocusManager({ areas: { list } });
+    plain.focusAreaKey("list", "a");
+
+    expect(plain.handleKeyDown(shift("ArrowDown")).handled).toBe(false);
+    expect(list.key).toBe("a");
+  });
+
+  it("notifies subscribers and onSelectionChange of changes only", () => {
+    const onSelectionChange = vi.fn();
+    setup({ onSelectionChange });
+
+    const listener = vi.fn();
+    selection.subscribe(listener);
+
+    selection.selectRange("a", "b");
+    selection.selectRange("a", "b");
+
+    expect(onSelectionChange).toHaveBeenCalledTimes(1);
+    expect(onSelectionChange).toHaveBeenCalledWith(["a", "b"], [], {
+      manager: selection,
+      list,
+    });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({
+      prevSelectedKeys: [],
+      selectedKeys: ["a", "b"],
+      anchor: "a",
+    });
+  });
+
+  it("keeps an external store as the source of truth", () => {
+    let stored: string[] = ["e"];
+    const listener = vi.fn();
+
+    setup({
+      getSelectedKeys: () => stored,
+      onSelectionChange: (next) => {
+        stored = next as string[];
+      },
+    });
+    selection.subscribe(listener);
+
+    expect(selection.isSelected("e")).toBe(true);
+
+    fm.handleKeyDown(shift("ArrowDown"));
+
+    expect(stored).toEqual(["a", "b"]);
+    expect(listener).toHaveBeenCalledWith({
+      prevSelectedKeys: ["e"],
+      selectedKeys: ["a", "b"],
+      anchor: "a",
+    });
+  });
+
+  it("does not notify when the external store rejects a change", () => {
+    const listener = vi.fn();
+    const onSelectionChange = vi.fn();
+
+    setup({ getSelectedKeys: () => [], onSelectionChange });
+    selection.subscribe(listener);
+
+    selection.selectAll();
+
+    expect(onSelectionChange).toHaveBeenCalledWith(
+      ["a", "b", "c", "d", "e"],
+      [],
+      expect.anything()
+    );
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("throws when used without a list", () => {
+    expect(() => new ListSelectionManager().selectAll()).toThrow(
+      /list not assigned/
+    );
+  });
+});
@@ -0,0 +1,282 @@
+import type { ListFocusManager } from "./ListFocusManager";
+import type {
+  FocusKey,
+  ListSelectionChangeListener,
+  ListSelectionManagerCallbackContext,
+  ListSelectionManagerProps,
+  ListSelectionMode,
+} from "./types";
+import { isSameKeys } from "./utils";
+
+/**
+ * ListSelectionManager tracks the selected keys of a ListFocusManager.
+ *
+ * Responsibilities:
+ * - Tracks the selected keys and the anchor that ranges are extended from.
+ * - Supports single selection, multiple selection, and multiple selection
+ *   where moving focus selects the focused key ("selection follows focus").
+ * - Skips disabled keys when selecting ranges or all keys.
+ * - Notifies subscribers and the `onSelectionChange` hook when the selection changes.
+ * - Optionally reads the selection from an external store through `getSelectedKeys`,
+ *   in which case changes are only requested through `onSelectionChange`.
+ *
+ * Keyboard selection is driven by the parent FocusManager, which reuses the
+ * list's arrow, page and home/end navigation and then extends the selection
+ * to the newly focused key.
+ */
+export class ListSelectionManager {
+  /**
+   * Creates a new ListSelectionManager.
+   *
+   * @param props Configuration options for the manager:
+   * - `mode`: How keys are selected ("single", "multiple" or "followFocus", default: "multiple").
+   * - `getSelectedKeys`: Function returning the selected keys from an external selection store.
+   * - `onSelectionChange`: Hook called with the next selection when it changes.
+   */
+  constructor(props: ListSelectionManagerProps = {}) {
+    this._mode = props.mode ?? "multiple";
+    this._getSelectedKeys = props.getSelectedKeys;
+    this._onSelectionChange = props.onSelectionChange;
+  }
+
+  protected _mode: ListSelectionMode;
+  protected _getSelectedKeys;
+  protected _onSelectionChange;
+
+  protected _selectedKeys: FocusKey[] = [];
+  protected _anchor: FocusKey | null = null;
+
+  /** The key focused by the last range or toggle, whose selection focus-following keeps. */
+  protected _extent: FocusKey | null = null;
+
+  protected _listeners = new Set<ListSelectionChangeListener>();
+
+  protected _list?: ListFocusManager<any>;
+
+  get list() {
+    return this._list;
+  }
+
+  set list(value: ListFocusManager<any> | undefined) {
+    this._list = value;
+  }
+
+  get mode() {
+    return this._mode;
+  }
+
+  get anchor() {
+    return this._anchor;
+  }
+
+  /**
+   * Returns the selected keys, read from `getSelectedKeys` if the selection
+   * is owned by an external store.
+   *
+   * @returns {FocusKey[]} The selected keys.
+   */
+  getSelectedKeys(): FocusKey[] {
+    if (this._getSelectedKeys) {
+      return this._getSelectedKeys(this.getCallbackContext());
+    }
+
+    return this._selectedKeys;
+  }
+
+  /**
+   * Returns whether the given key is selected.
+   */
+  isSelected(key: FocusKey): boolean {
+    return this.getSelectedKeys().includes(key);
+  }
+
+  /**
+   * Registers a listener that is called after every selection change.
+   *
+   * @param listener The function to call on each change.
+   * @returns {() => void} A function that removes the listener.
+   */
+  subscribe(listener: ListSelectionChangeListener): () => void {
+    this._listeners.add(listener);
+
+    return () => {
+      this._listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Replaces the selection with the given keys. Keys that are not returned by
+   * the list's `getKeys()` are dropped, and in `"single"` mode only the last key
+   * is kept. The anchor is left unchanged.
+   *
+   * @param keys The keys to select.
+   */
+  select(keys: FocusKey[]): void {
+    this.setSelectedKeys(keys);
+  }
+
+  /**
+   * Selects only the given key and makes it the anchor.
+   *
+   * @param key The key to select.
+   */
+  selectOnly(key: FocusKey): void {
+    this._anchor = key;
+    this._extent = key;
+    this.setSelectedKeys([key]);
+  }
+
+  /**
+   * Toggles whether the given key is selected and makes it the anchor.
+   * In `"single"` mode, selecting a key deselects all other keys.
+   * Disabled keys cannot be selected.
+   *
+   * @param key The key to toggle.
+   */
+  toggle(key: FocusKey): void {
+    const selectedKeys = this.getSelectedKeys();
+    const isSelected = selectedKeys.includes(key);
+
+    if (!isSelected && this.getCallbackContext().list.isKeyDisabled(key)) {
+      return;
+    }
+
+    this._anchor = key;
+    this._extent = key;
+
+    if (this._mode === "single") {
+      this.setSelectedKeys(isSelected ? [] : [key]);
+    }
+    //
+    else {
+      this.setSelectedKeys(
+        isSelected
+          ? selectedKeys.filter((selectedKey) => selectedKey !== key)
+          : [...selectedKeys, key]
+      );
+    }
+  }
+
+  /**
+   * Replaces the selection with the enabled keys between `from` and `to`
+   * (inclusive), and makes `from` the anchor. In `"single"` mode only `to`
+   * is selected.
+   *
+   * @param from The key the range starts at, usually the anchor.
+   * @param to The key the range ends at, usually the focused key.
+   */
+  selectRange(from: FocusKey, to: FocusKey): void {
+    this._anchor = from;
+    this._extent = to;
+
+    if (this._mode === "single") {
+      this.setSelectedKeys([to]);
+      return;
+    }
+
+    const list = this.getCallbackContext().list;
+
+    const [anchorIndex, toIndex] = list.getKeyIndices([from, to]);
+    if (toIndex === -1) return;
+
+    const fromIndex = anchorIndex !== -1 ? anchorIndex : toIndex;
+
+    const range = list.sliceKeys(
+      Math.min(fromIndex, toIndex),
+      Math.max(fromIndex, toIndex) + 1
+    );
+
+    this.setSelectedKeys(range.filter((key) => !list.isKeyDisabled(key)));
+  }
+
+  /**
+   * Selects all enabled keys. Does nothing in `"single"` mode.
+   */
+  selectAll(): void {
+    if (this._mode === "single") return;
+
+    const list = this.getCallbackContext().list;
+
+    this.setSelectedKeys(
+      list.getKeys().filter((key) => !list.isKeyDisabled(key))
+    );
+  }
+
+  /**
+   * Deselects all keys and resets the anchor.
+   */
+  clear(): void {
+    this._anchor = null;
+    this._extent = null;
+    this.setSelectedKeys([]);
+  }
+
+  /**
+   * Selects the newly focused key in `"followFocus"` mode, unless it was
+   * focused by a range or toggle operation. Called by the list when its
+   * focused key changes while it is the active area.
+   *
+   * @param key The focused key.
+   */
+  notifyFocus(key: FocusKey | null): void {
+    if (this._mode !== "followFocus" || key == null || key === this._extent) {
+      return;
+    }
+
+    this.selectOnly(key);
+  }
+
+  protected setSelectedKeys(keys: FocusKey[]) {
+    const ctx = this.getCallbackContext();
+    const prevSelectedKeys = this.getSelectedKeys();
+
+    const uniqueKeys = Array.from(new Set(keys));
+    const indices = ctx.list.getKeyIndices(uniqueKeys);
+
+    let nextKeys = uniqueKeys
+      .map((key, i) => ({ key, index: indices[i] }))
+      .filter(({ index }) => index !== -1)
+      .sort((a, b) => a.index - b.index)
+      .map(({ key }) => key);
+
+    if (this._mode === "single" && nextKeys.length > 1) {
+      const lastKey = keys[keys.length - 1];
+      nextKeys = nextKeys.includes(lastKey) ? [lastKey] : nextKeys.slice(-1);
+    }
+
+    if (isSameKeys(prevSelectedKeys, nextKeys)) return;
+
+    if (!this._getSelectedKeys) {
+      this._selectedKeys = nextKeys;
+    }
+
+    this._onSelectionChange?.(nextKeys, prevSelectedKeys, ctx);
+
+    // an external store may apply the change later, or not at all
+    const selectedKeys = this.getSelectedKeys();
+    if (isSameKeys(prevSelectedKeys, selectedKeys)) return;
+
+    const event = {
+      prevSelectedKeys,
+      selectedKeys,
+      anchor: this._anchor,
+    };
+
+    for (const listener of Array.from(this._listeners)) {
+      listener(event);
+    }
+  }
+
+  protected getCallbackContext(): ListSelectionManagerCallbackContext {
+    if (!this.list) {
+      throw new Error(
+        "ListSelectionManager: list not assigned. You need to pass this selection manager into ListFocusManager's selection prop."
+      );
+    }
+
+    return {
+      manager: this,
+      list: this.list,
+    };
+  }
+}
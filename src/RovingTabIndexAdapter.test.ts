@@ -0,0 +1,145 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FocusManager } from "./FocusManager";
+import { ListFocusManager } from "./ListFocusManager";
+import { RovingTabIndexAdapter } from "./RovingTabIndexAdapter";
+
+describe("RovingTabIndexAdapter", () => {
+  let fm: FocusManager<{
+    toolbar: ListFocusManager;
+    list: ListFocusManager;
+  }>;
+  let adapter: RovingTabIndexAdapter<{
+    toolbar: ListFocusManager;
+    list: ListFocusManager;
+  }>;
+  let buttons: Record<string, HTMLButtonElement>;
+  let items: Record<string, HTMLDivElement>;
+
+  beforeEach(() => {
+    fm = new FocusManager({
+      areas: {
+        toolbar: new ListFocusManager({
+          getKeys: () => ["back", "forward"],
+          getOrientation: () => "horizontal",
+          getInitialKeyOnAreaFocus: () => "back",
+        }),
+        list: new ListFocusManager({
+          getKeys: () => ["a", "b", "c"],
+          getInitialKeyOnAreaFocus: () => "a",
+        }),
+      },
+    });
+
+    adapter = new RovingTabIndexAdapter({ focusManager: fm });
+
+    buttons = {};
+    for (const key of ["back", "forward"]) {
+      buttons[key] = document.createElement("button");
+      document.body.append(buttons[key]);
+      adapter.register("toolbar", key, buttons[key]);
+    }
+
+    items = {};
+    for (const key of ["a", "b", "c"]) {
+      items[key] = document.createElement("div");
+      document.body.append(items[key]);
+      adapter.register("list", key, items[key]);
+    }
+  });
+
+  afterEach(() => {
+    adapter.dispose();
+    document.body.innerHTML = "";
+  });
+
+  it("keeps exactly one element per area tabbable", () => {
+    expect(buttons.back.tabIndex).toBe(0);
+    expect(buttons.forward.tabIndex).toBe(-1);
+    expect(items.a.tabIndex).toBe(0);
+    expect(items.b.tabIndex).toBe(-1);
+    expect(items.c.tabIndex).toBe(-1);
+  });
+
+  it("moves tabindex and DOM focus when the key changes", () => {
+    fm.focusArea("list");
+    expect(document.activeElement).toBe(items.a);
+
+    fm.focusOnArrowDown();
+
+    expect(document.activeElement).toBe(items.b);
+    expect(items.a.tabIndex).toBe(-1);
+    expect(items.b.tabIndex).toBe(0);
+  });
+
+  it("passes preventScroll to element.focus", () => {
+    adapter.dispose();
+    adapter = new RovingTabIndexAdapter({
+      focusManager: fm,
+      preventScroll: true,
+    });
+    adapter.register("list", "c", items.c);
+
+    const focus = vi.spyOn(items.c, "focus");
+    fm.focusAreaKey("list", "c");
+
+    expect(focus).toHaveBeenCalledWith({ preventScroll: true });
+  });
+
+  it("forwards focus events as keyboard focus", () => {
+    buttons.forward.focus();
+
+    expect(fm.entry?.area).toBe("toolbar");
+    expect(fm.entry?.source).toBe("keyboard");
+    expect(fm.areas.toolbar.key).toBe("forward");
+    expect(buttons.forward.tabIndex).toBe(0);
+  });
+
+  it("forwards pointerdown events as pointer focus", () => {
+    items.c.dispatchEvent(new Event("pointerdown"));
+    items.c.focus();
+
+    expect(fm.entry?.area).toBe("list");
+    expect(fm.entry?.source).toBe("pointer");
+    expect(fm.areas.list.key).toBe("c");
+  });
+
+  it("reports keyboard focus after a pointer focus of the same element", () => {
+    items.c.dispatchEvent(new Event("pointerdown"));
+    expect(document.activeElement).toBe(items.c);
+
+    // focus leaves the widget and comes back with Tab
+    const outside = document.createElement("input");
+    document.body.append(outside);
+    outside.focus();
+    items.c.focus();
+
+    expect(fm.entry?.area).toBe("list");
+    expect(fm.entry?.source).toBe("keyboard");
+  });
+
+  it("leaves DOM focus outside of the registered elements", () => {
+    fm.focusArea("list");
+    fm.focusArea("toolbar");
+    expect(document.activeElement).toBe(buttons.back);
+
+    const outside = document.createElement("input");
+    document.body.append(outside);
+    outside.focus();
+
+    fm.reconcile();
+    fm.unregisterArea("list");
+    expect(document.activeElement).toBe(outside);
+
+    fm.focusOnArrowRight();
+    expect(document.activeElement).toBe(outside);
+    expect(buttons.forward.tabIndex).toBe(0);
+  });
+
+  it("stops forwarding events after unregistering", () => {
+    adapter.unregister("toolbar", "forward");
+    buttons.forward.focus();
+
+    expect(fm.entry).toBeNull();
+  });
+});
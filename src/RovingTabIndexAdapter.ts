@@ -0,0 +1,253 @@
+import type {
+  AreaFocusKey,
+  AreaFocusManager,
+  FocusChangeEvent,
+  KeyFromAreaFocusManager,
+  MetaFromAreaFocusManager,
+  RovingTabIndexAdapterProps,
+} from "./types";
+import { isSameAreaKey } from "./utils";
+
+type RovingTabIndexItem = {
+  key: AreaFocusKey;
+  element: HTMLElement;
+  cleanup: () => void;
+};
+
+/**
+ * RovingTabIndexAdapter keeps DOM focus and `tabindex` attributes in sync with
+ * a FocusManager, implementing the WAI-ARIA "roving tabindex" technique.
+ *
+ * Responsibilities:
+ * - Tracks the elements registered for each area and key.
+ * - Keeps exactly one element per area at `tabindex=0` (the area's focused key,
+ *   or the first registered element if that key has no element), and all others at `-1`.
+ * - Calls `element.focus()` when the active area or its focused key changes,
+ *   unless DOM focus is outside of the registered elements.
+ * - Forwards `focus` and `pointerdown` events on registered elements back into
+ *   `FocusManager.focusAreaKey` with the matching `FocusSource`.
+ *
+ * @template T A record mapping area identifiers to their corresponding area focus manager instances.
+ */
+export class RovingTabIndexAdapter<T extends Record<string, AreaFocusManager>> {
+  /**
+   * Creates a new RovingTabIndexAdapter and subscribes it to the FocusManager.
+   *
+   * @param props Configuration options for the adapter:
+   * - `focusManager`: The FocusManager whose state is mirrored into the DOM.
+   * - `preventScroll`: Whether to focus elements without scrolling them into view (default: false).
+   */
+  constructor(props: RovingTabIndexAdapterProps<T>) {
+    this._focusManager = props.focusManager;
+    this._preventScroll = !!props.preventScroll;
+
+    this._unsubscribe = this._focusManager.subscribe((event) => {
+      this.handleChange(event);
+    });
+  }
+
+  protected _focusManager;
+  protected _preventScroll;
+  protected _unsubscribe: () => void;
+
+  protected _items = new Map<keyof T, RovingTabIndexItem[]>();
+
+  /** Set while the adapter itself moves DOM focus, so the resulting focus event is ignored. */
+  protected _focusing = false;
+
+  /** The element that last received a pointerdown, so its focus event is attributed to the pointer. */
+  protected _pointerTarget: HTMLElement | null = null;
+
+  get focusManager() {
+    return this._focusManager;
+  }
+
+  /**
+   * Registers the element that represents `key` within `area`.
+   *
+   * Registering the same area and key again replaces the previous element.
+   *
+   * @template K The key type of the target area.
+   * @param area The identifier of the area the element belongs to.
+   * @param key The focus key the element represents.
+   * @param element The focusable element.
+   * @param meta Optional metadata passed to `focusAreaKey` when the element is focused.
+   * @returns {() => void} A function that unregisters the element.
+   */
+  register<K extends keyof T>(
+    area: K,
+    key: KeyFromAreaFocusManager<T[K]>,
+    element: HTMLElement,
+    meta?: MetaFromAreaFocusManager<T[K]>
+  ): () => void {
+    this.removeItem(area, key);
+
+    const onFocus = () => {
+      if (this._focusing) {
+        // focused by the adapter in response to the pointerdown
+        if (this._pointerTarget === element) this._pointerTarget = null;
+        return;
+      }
+
+      const source = this._pointerTarget === element ? "pointer" : "keyboard";
+      this._pointerTarget = null;
+
+      this._focusManager.focusAreaKey(area, key, source, meta);
+    };
+
+    const onPointerDown = () => {
+      this._pointerTarget = element;
+      this._focusManager.focusAreaKey(area, key, "pointer", meta);
+    };
+
+    element.addEventListener("focus", onFocus);
+    element.addEventListener("pointerdown", onPointerDown);
+
+    const item: RovingTabIndexItem = {
+      key,
+      element,
+      cleanup: () => {
+        element.removeEventListener("focus", onFocus);
+        element.removeEventListener("pointerdown", onPointerDown);
+      },
+    };
+
+    const items = this._items.get(area) ?? [];
+    items.push(item);
+    this._items.set(area, items);
+
+    this.syncArea(area);
+
+    return () => {
+      if (this._items.get(area)?.includes(item)) {
+        this.unregister(area, key);
+      }
+    };
+  }
+
+  /**
+   * Unregisters the element that represents `key` within `area`
+   * and removes its event listeners.
+   *
+   * @param area The identifier of the area the element belongs to.
+   * @param key The focus key the element represents.
+   */
+  unregister<K extends keyof T>(area: K, key: KeyFromAreaFocusManager<T[K]>) {
+    this.removeItem(area, key);
+    this.syncArea(area);
+  }
+
+  /**
+   * Returns the element registered for `key` within `area`, or `null` if none.
+   */
+  getElement<K extends keyof T>(
+    area: K,
+    key: KeyFromAreaFocusManager<T[K]> | null
+  ): HTMLElement | null {
+    return this.findItem(area, key)?.element ?? null;
+  }
+
+  /**
+   * Re-applies `tabindex` values for all registered areas.
+   * Useful after keys were changed outside of the FocusManager.
+   */
+  sync() {
+    for (const area of this._items.keys()) {
+      this.syncArea(area);
+    }
+  }
+
+  /**
+   * Unsubscribes from the FocusManager and removes all event listeners
+   * from registered elements. Their `tabindex` values are left as they are.
+   */
+  dispose() {
+    this._unsubscribe();
+
+    for (const items of this._items.values()) {
+      for (const item of items) {
+        item.cleanup();
+      }
+    }
+
+    this._items.clear();
+  }
+
+  protected handleChange(event: FocusChangeEvent<T>) {
+    this.sync();
+
+    if (!event.entry) return;
+
+    // e.g. reconcile or unregisterArea of another area
+    if (
+      event.entry === event.prevEntry &&
+      isSameAreaKey(event.prevKey, event.key)
+    ) {
+      return;
+    }
+
+    const element = this.findItem(event.entry.area, event.key)?.element;
+    if (!element || element.ownerDocument.activeElement === element) return;
+
+    // leaves DOM focus where the user moved it outside the registered elements
+    if (!this.hasFocusWithin(element.ownerDocument)) return;
+
+    this._focusing = true;
+    try {
+      element.focus({ preventScroll: this._preventScroll });
+    } finally {
+      this._focusing = false;
+    }
+  }
+
+  /**
+   * Returns whether DOM focus is on one of the registered elements, or on
+   * nothing at all.
+   */
+  protected hasFocusWithin(document: Document): boolean {
+    const active = document.activeElement;
+    if (!active || active === document.body) return true;
+
+    for (const items of this._items.values()) {
+      if (items.some((item) => item.element.contains(active))) return true;
+    }
+
+    return false;
+  }
+
+  protected syncArea(area: keyof T) {
+    const items = this._items.get(area);
+    if (!items || items.length === 0) return;
+
+    // the area may have been unregistered from the FocusManager
+    const key = this._focusManager.areas[area]?.key ?? null;
+    const active =
+      items.find((item) => isSameAreaKey(item.key, key)) ?? items[0];
+
+    for (const item of items) {
+      item.element.tabIndex = item === active ? 0 : -1;
+    }
+  }
+
+  protected findItem(area: keyof T, key: AreaFocusKey | null) {
+    if (key == null) return undefined;
+
+    const items = this._items.get(area) ?? [];
+    return items.find((item) => isSameAreaKey(item.key, key));
+  }
+
+  protected removeItem(area: keyof T, key: AreaFocusKey) {
+    const items = this._items.get(area);
+    if (!items) return;
+
+    const index = items.findIndex((item) => isSameAreaKey(item.key, key));
+    if (index === -1) return;
+
+    items[index].cleanup();
+    items.splice(index, 1);
+
+    if (items.length === 0) {
+      this._items.delete(area);
+    }
+  }
+}
@@ -0,0 +1,210 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { FocusManager } from "./FocusManager";
+import { ListFocusManager } from "./ListFocusManager";
+import { SpatialFocusManager } from "./SpatialFocusManager";
+import type { FocusKey, FocusRect, SpatialDirection } from "./types";
+
+const rect = (x: number, y: number, width: number, height: number) => ({
+  x,
+  y,
+  width,
+  height,
+});
+
+// menu     hero
+// m1       ┌──────────────────┐
+//          └──────────────────┘
+// m2       b1     b2     b3
+// m3       ┌───c1───┐ ┌───c2───┐
+const layout: Record<string, FocusRect> = {
+  m1: rect(-200, 0, 100, 100),
+  m2: rect(-200, 120, 100, 100),
+  m3: rect(-200, 240, 100, 100),
+  hero: rect(0, 0, 400, 100),
+  b1: rect(0, 120, 100, 100),
+  b2: rect(150, 120, 100, 100),
+  b3: rect(300, 120, 100, 100),
+  c1: rect(0, 240, 190, 100),
+  c2: rect(210, 240, 190, 100),
+};
+
+describe("SpatialFocusManager", () => {
+  let fm: FocusManager<{
+    menu: SpatialFocusManager;
+    grid: SpatialFocusManager;
+    footer: ListFocusManager;
+  }>;
+  let menu: SpatialFocusManager;
+  let grid: SpatialFocusManager;
+  let footer: ListFocusManager;
+  let rects: Record<string, FocusRect | null>;
+  let disabled: Set<FocusKey>;
+  let gridExits: Partial<Record<SpatialDirection, string>>;
+
+  beforeEach(() => {
+    rects = { ...layout };
+    disabled = new Set();
+    gridExits = { left: "menu", down: "footer" };
+
+    menu = new SpatialFocusManager({
+      getKeys: () => ["m1", "m2", "m3"],
+      getRect: (key) => rects[key] ?? null,
+      getExitArea: (direction) => (direction === "right" ? "grid" : null),
+      getInitialKeyOnAreaFocus: () => "m1",
+    });
+
+    grid = new SpatialFocusManager({
+      getKeys: () => ["hero", "b1", "b2", "b3", "c1", "c2"],
+      getRect: (key) => rects[key] ?? null,
+      isKeyDisabled: (key) => disabled.has(key),
+      getExitArea: (direction) => gridExits[direction] ?? null,
+      getInitialKeyOnAreaFocus: () => "hero",
+    });
+
+    footer = new ListFocusManager({
+      getKeys: () => ["about", "help"],
+      getOrientation: () => "horizontal",
+      getInitialKeyOnAreaFocus: () => "about",
+    });
+
+    fm = new FocusManager({ areas: { menu, grid, footer } });
+  });
+
+  it("moves to the nearest item in each direction", () => {
+    fm.focusAreaKey("grid", "b2");
+
+    fm.focusOnArrowRight();
+    expect(grid.key).toBe("b3");
+
+    fm.focusOnArrowLeft();
+    fm.focusOnArrowLeft();
+    expect(grid.key).toBe("b1");
+
+    fm.focusOnArrowDown();
+    expect(grid.key).toBe("c1");
+
+    fm.focusOnArrowRight();
+    expect(grid.key).toBe("c2");
+
+    fm.focusOnArrowUp();
+    expect(grid.key).toBe("b3");
+    expect(fm.entry?.source).toBe("keyboard");
+  });
+
+  it("prefers a near item out of line over a distant item in line", () => {
+    // hero is in line with c2, but 540px away; b1 is 20px away and 110px out of line
+    rects.b3 = null;
+    rects.b2 = null;
+    rects.hero = rect(300, -400, 100, 100);
+    fm.focusAreaKey("grid", "c2");
+
+    fm.focusOnArrowUp();
+    expect(grid.key).toBe("b1");
+  });
+
+  it("weighs the cross-axis distance by alignmentBias", () => {
+    rects.b3 = null;
+    rects.b2 = null;
+    rects.hero = rect(300, -400, 100, 100);
+
+    grid = new SpatialFocusManager({
+      getKeys: () => ["hero", "b1", "c2"],
+      getRect: (key) => rects[key] ?? null,
+      alignmentBias: 10,
+    });
+    const spatial = new FocusManager({ areas: { grid } });
+    spatial.focusAreaKey("grid", "c2");
+
+    spatial.focusOnArrowUp();
+    expect(grid.key).toBe("hero");
+  });
+
+  it("remembers the cross-axis position across consecutive moves", () => {
+    fm.focusAreaKey("grid", "b3");
+
+    fm.focusOnArrowUp();
+    expect(grid.key).toBe("hero");
+
+    fm.focusOnArrowDown();
+    expect(grid.key).toBe("b3");
+  });
+
+  it("forgets the cross-axis position after a move along the other axis", () => {
+    fm.focusAreaKey("grid", "b2");
+    fm.focusOnArrowDown();
+    expect(grid.key).toBe("c1");
+
+    fm.focusOnArrowRight();
+    fm.focusOnArrowUp();
+    expect(grid.key).toBe("b3");
+  });
+
+  it("skips disabled and unrendered items", () => {
+    disabled.add("b2");
+    rects.b3 = null;
+    fm.focusAreaKey("grid", "b1");
+
+    fm.focusOnArrowRight();
+    expect(grid.key).toBe("c2");
+  });
+
+  it("exits to the neighbouring area at the edges, keeping the cross-axis position", () => {
+    fm.focusAreaKey("grid", "b1");
+
+    expect(fm.focusOnArrowLeft()).toBe(true);
+    expect(fm.entry?.area).toBe("menu");
+    expect(menu.key).toBe("m2");
+
+    fm.focusOnArrowDown();
+    fm.focusOnArrowRight();
+    expect(fm.entry?.area).toBe("grid");
+    expect(grid.key).toBe("c1");
+  });
+
+  it("enters other exit areas at their initial key", () => {
+    fm.focusAreaKey("grid", "c2");
+
+    fm.focusOnArrowDown();
+    expect(fm.entry?.area).toBe("footer");
+    expect(footer.key).toBe("about");
+  });
+
+  it("leaves arrow keys unhandled at an edge without exit area", () => {
+    fm.focusAreaKey("grid", "b3");
+
+    expect(fm.focusOnArrowRight()).toBe(false);
+    expect(grid.key).toBe("b3");
+
+    delete gridExits.down;
+    fm.focusAreaKey("grid", "c2");
+
+    const result = fm.handleKeyDown({
+      key: "ArrowDown",
+      code: "",
+      ctrlKey: false,
+      altKey: false,
+      shiftKey: false,
+      metaKey: false,
+    });
+
+    expect(result.handled).toBe(false);
+    expect(fm.entry?.area).toBe("grid");
+  });
+
+  it("restores a nearby key on history navigation after the key was removed", () => {
+    const keys = ["hero", "b1", "b2"];
+    grid = new SpatialFocusManager({
+      getKeys: () => keys,
+      getRect: (key) => rects[key] ?? null,
+    });
+    fm.dispose();
+    const spatial = new FocusManager({ areas: { grid, footer } });
+
+    spatial.focusAreaKey("grid", "b2");
+    spatial.focusArea("footer");
+    keys.pop();
+    spatial.goBack();
+
+    expect(grid.key).toBe("b1");
+  });
+});
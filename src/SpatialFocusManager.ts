@@ -0,0 +1,314 @@
+import type { FocusManager } from "./FocusManager";
+import type {
+  FocusKey,
+  FocusRect,
+  SpatialDirection,
+  SpatialFocusManagerCallbackContext,
+  SpatialFocusManagerProps,
+} from "./types";
+import { clampIndex, getSpatialScore } from "./utils";
+
+/**
+ * SpatialFocusManager coordinates focus behavior within a free-form "spatial" area,
+ * where arrow keys move to the nearest item on screen rather than to the next key,
+ * e.g. TV and kiosk layouts or dashboards.
+ *
+ * Responsibilities:
+ * - Tracks the currently focused key (`_key`).
+ * - Reads the geometry of the items through `getRect` and moves to the best
+ *   scored enabled item in the direction of the arrow key.
+ * - Remembers the cross-axis position of consecutive moves along one axis, so that
+ *   moving down through a wide item and on to a row of narrow items keeps the
+ *   column focus started in.
+ * - Exits to a neighbouring area of the parent FocusManager (`getExitArea`)
+ *   when there is no item in the direction of the arrow key.
+ *
+ * Scoring: candidates lie past the focused item in the direction of movement,
+ * and score `distance + alignmentBias * crossDistance - overlap` (see
+ * `getSpatialScore`), where `distance` is the gap along the direction of
+ * movement, `crossDistance` the gap across it and `overlap` the length over
+ * which both items are in line. The lowest score wins, and ties go to the
+ * candidate that comes first in `getKeys`.
+ *
+ * @template Meta Optional metadata type associated with focus entries.
+ */
+export class SpatialFocusManager<Meta = any> {
+  /**
+   * Creates a new SpatialFocusManager.
+   *
+   * @param props Configuration options for the manager:
+   * - `getKeys`: Function returning the focusable keys of the area.
+   * - `getRect`: Function returning the on-screen rectangle of an item.
+   * - `isKeyDisabled`: Function returning whether an item is disabled.
+   * - `alignmentBias`: Weight of the cross-axis distance in the score of a candidate (default: 2).
+   * - `getExitArea`: Function returning the area focus moves to at an edge.
+   * - `getInitialKeyOnAreaFocus`: Function returning the initial key when the area receives focus.
+   * - `onEnter` / `onLeave` / `onKeyChange`: Hooks called by the parent FocusManager on focus changes.
+   */
+  constructor(props: SpatialFocusManagerProps<Meta>) {
+    this._getKeys = props.getKeys;
+    this._getRect = props.getRect;
+    this._isKeyDisabled = props.isKeyDisabled;
+    this._alignmentBias = props.alignmentBias ?? 2;
+    this._getExitArea = props.getExitArea;
+    this._getInitialKeyOnAreaFocus = props.getInitialKeyOnAreaFocus;
+    this._onEnter = props.onEnter;
+    this._onLeave = props.onLeave;
+    this._onKeyChange = props.onKeyChange;
+  }
+
+  kind = "spatial" as const;
+
+  protected _key: FocusKey | null = null;
+
+  protected _getKeys;
+  protected _getRect;
+  protected _isKeyDisabled;
+  protected _alignmentBias;
+  protected _getExitArea;
+  protected _getInitialKeyOnAreaFocus;
+  protected _onEnter;
+  protected _onLeave;
+  protected _onKeyChange;
+
+  /**
+   * The cross-axis position kept by moves along one axis, while `key` is
+   * still the key they focused.
+   */
+  protected _crossAxis: {
+    key: FocusKey;
+    vertical: boolean;
+    position: number;
+  } | null = null;
+
+  protected _parent?: FocusManager<any>;
+
+  get parent() {
+    return this._parent;
+  }
+
+  set parent(value: FocusManager<any> | undefined) {
+    this._parent = value;
+  }
+
+  get key() {
+    return this._key;
+  }
+
+  set key(value: FocusKey | null) {
+    const apply = () => {
+      this._key = value;
+    };
+
+    if (this._parent) {
+      this._parent.updateAreaKey(apply);
+    }
+    //
+    else {
+      apply();
+    }
+  }
+
+  /**
+   * Returns the focusable keys of the area,
+   * as provided by the `getKeys` callback.
+   */
+  getKeys(): FocusKey[] {
+    return this._getKeys(this.getCallbackContext());
+  }
+
+  /**
+   * Returns the on-screen rectangle of an item, or `null` if it is not rendered.
+   */
+  getRect(key: FocusKey): FocusRect | null {
+    return this._getRect(key, this.getCallbackContext());
+  }
+
+  /**
+   * Returns whether the given key is disabled.
+   */
+  isKeyDisabled(key: FocusKey): boolean {
+    return this._isKeyDisabled?.(key, this.getCallbackContext()) ?? false;
+  }
+
+  /**
+   * Returns whether the given key is one of the area's keys.
+   */
+  hasKey(key: FocusKey): boolean {
+    return this.getKeys().includes(key);
+  }
+
+  /**
+   * Returns the given key if it still exists. Otherwise returns the key
+   * closest to `index`, the position the key had before it was removed.
+   *
+   * @param key The key to look up.
+   * @param index The last known index of the key.
+   * @returns {FocusKey | null} The key, or `null` if the area has no keys.
+   */
+  getNearestKey(key: FocusKey, index: number): FocusKey | null {
+    const keys = this.getKeys();
+
+    if (keys.includes(key)) return key;
+    if (keys.length === 0) return null;
+
+    return keys[clampIndex(index, keys.length)];
+  }
+
+  /**
+   * Returns the initial focus key when this area receives focus,
+   * or `null` if no initial key is specified.
+   */
+  getInitialKeyOnAreaFocus() {
+    return this._getInitialKeyOnAreaFocus?.(this.getCallbackContext()) ?? null;
+  }
+
+  /**
+   * Returns the area of the parent FocusManager that focus moves to when
+   * there is no item in the given direction, or `null` if there is none.
+   */
+  getExitArea(direction: SpatialDirection): string | null {
+    return this._getExitArea?.(direction, this.getCallbackContext()) ?? null;
+  }
+
+  /**
+   * Returns the rectangle that moves in the given direction start from: the
+   * rectangle of the focused item, narrowed to the remembered cross-axis
+   * position if the previous moves were along the same axis.
+   *
+   * @returns {FocusRect | null} The rectangle, or `null` if no item is
+   * focused or the focused item is not rendered.
+   */
+  getReferenceRect(direction: SpatialDirection): FocusRect | null {
+    if (this._key == null) return null;
+
+    const rect = this.getRect(this._key);
+    if (!rect) return null;
+
+    const crossAxis = this._crossAxis;
+    const vertical = direction === "up" || direction === "down";
+
+    if (
+      !crossAxis ||
+      crossAxis.key !== this._key ||
+      crossAxis.vertical !== vertical
+    ) {
+      return rect;
+    }
+
+    return vertical
+      ? { ...rect, x: crossAxis.position, width: 0 }
+      : { ...rect, y: crossAxis.position, height: 0 };
+  }
+
+  /**
+   * Moves focus to the best scored item in the given direction, typically
+   * triggered by an arrow key. If no item is focused, the initial key is focused.
+   *
+   * @param direction The direction of movement on screen.
+   * @returns {boolean} False if there is no item to move to, e.g. at an edge.
+   */
+  focusOnDirection(direction: SpatialDirection): boolean {
+    if (this._key == null) {
+      this._key = this.getInitialKeyOnAreaFocus();
+      return this._key != null;
+    }
+
+    const rect = this.getReferenceRect(direction);
+    if (!rect) return false;
+
+    return this.focusFromRect(direction, rect);
+  }
+
+  /**
+   * Moves focus to the best scored item in the given direction from a
+   * rectangle outside of the area, e.g. the item focus left in a
+   * neighbouring area, keeping its cross-axis position.
+   *
+   * @param direction The direction of movement on screen.
+   * @param rect The rectangle the move starts from.
+   * @returns {boolean} False if there is no item in that direction.
+   */
+  focusFromRect(direction: SpatialDirection, rect: FocusRect): boolean {
+    let targetKey: FocusKey | null = null;
+    let targetScore = Infinity;
+
+    for (const key of this.getKeys()) {
+      // the focused item never lies past itself, see `getSpatialScore`
+      if (this.isKeyDisabled(key)) continue;
+
+      const candidate = this.getRect(key);
+      if (!candidate) continue;
+
+      const score = getSpatialScore(
+        rect,
+        candidate,
+        direction,
+        this._alignmentBias
+      );
+
+      if (score != null && score < targetScore) {
+        targetKey = key;
+        targetScore = score;
+      }
+    }
+
+    if (targetKey == null) return false;
+
+    const vertical = direction === "up" || direction === "down";
+
+    this._key = targetKey;
+    this._crossAxis = {
+      key: targetKey,
+      vertical,
+      position: vertical ? rect.x + rect.width / 2 : rect.y + rect.height / 2,
+    };
+
+    return true;
+  }
+
+  /**
+   * Invokes the `onEnter` hook. Called by the parent FocusManager
+   * when this area becomes the active area.
+   */
+  notifyEnter(): void {
+    this._onEnter?.(this.getCallbackContext());
+  }
+
+  /**
+   * Invokes the `onLeave` hook. Called by the parent FocusManager
+   * when this area stops being the active area.
+   */
+  notifyLeave(): void {
+    this._onLeave?.(this.getCallbackContext());
+  }
+
+  /**
+   * Invokes the `onKeyChange` hook with the current key. Called by the parent
+   * FocusManager when the focused key of the active area changes.
+   *
+   * @param prevKey The focused key before the change.
+   */
+  notifyKeyChange(prevKey: FocusKey | null): void {
+    this._onKeyChange?.(this._key, prevKey, this.getCallbackContext());
+  }
+
+  clear() {
+    this._key = null;
+    this._crossAxis = null;
+  }
+
+  protected getCallbackContext(): SpatialFocusManagerCallbackContext<Meta> {
+    if (!this.parent) {
+      throw new Error(
+        "SpatialFocusManager: parent not assigned. You need to pass this area manager into FocusManager.areas."
+      );
+    }
+
+    return {
+      manager: this,
+      parent: this.parent,
+      meta: (this.parent?.entry?.meta as Meta) ?? null,
+    };
+  }
+}
@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { FocusManager } from "./FocusManager";
+import { TreeFocusManager } from "./TreeFocusManager";
+import type { FocusKey } from "./types";
+
+// src
+// ├─ components
+// │  ├─ Button.tsx
+// │  └─ Input.tsx
+// └─ index.ts
+// docs
+// └─ README.md
+// package.json
+const children: Record<string, string[]> = {
+  src: ["components", "index.ts"],
+  components: ["Button.tsx", "Input.tsx"],
+  docs: ["README.md"],
+};
+
+const parents: Record<string, string> = {
+  components: "src",
+  "index.ts": "src",
+  "Button.tsx": "components",
+  "Input.tsx": "components",
+  "README.md": "docs",
+};
+
+describe("TreeFocusManager", () => {
+  let fm: FocusManager<{ tree: TreeFocusManager }>;
+  let tree: TreeFocusManager;
+  let expanded: Set<FocusKey>;
+  let requests: string[];
+
+  beforeEach(() => {
+    expanded = new Set();
+    requests = [];
+
+    tree = new TreeFocusManager({
+      getRootKeys: () => ["src", "docs", "package.json"],
+      getChildren: (key) => children[key] ?? [],
+      getParent: (key) => parents[key] ?? null,
+      isExpanded: (key) => expanded.has(key),
+      onRequestExpand: (key) => {
+        requests.push(`expand:${key}`);
+        expanded.add(key);
+      },
+      onRequestCollapse: (key) => {
+        requests.push(`collapse:${key}`);
+        expanded.delete(key);
+      },
+      getInitialKeyOnAreaFocus: () => "src",
+    });
+
+    fm = new FocusManager({
+      areas: { tree },
+      maxHistory: 10,
+    });
+
+    fm.focusArea("tree");
+  });
+
+  it("moves through root nodes when everything is collapsed", () => {
+    fm.focusOnArrowDown();
+    expect(tree.key).toBe("docs");
+
+    fm.focusOnArrowDown();
+    fm.focusOnArrowDown();
+    expect(tree.key).toBe("package.json");
+
+    fm.focusOnArrowUp();
+    expect(tree.key).toBe("docs");
+  });
+
+  it("expands a collapsed node on ArrowRight, then moves to its first child", () => {
+    fm.focusOnArrowRight();
+    expect(requests).toEqual(["expand:src"]);
+    expect(tree.key).toBe("src");
+
+    fm.focusOnArrowRight();
+    expect(tree.key).toBe("components");
+    expect(fm.entry?.source).toBe("keyboard");
+  });
+
+  it("does nothing on ArrowRight for a leaf node", () => {
+    fm.focusAreaKey("tree", "package.json");
+    fm.focusOnArrowRight();
+
+    expect(requests).toEqual([]);
+    expect(tree.key).toBe("package.json");
+  });
+
+  it("collapses an expanded node on ArrowLeft, then moves to its parent", () => {
+    expanded.add("src");
+    fm.focusAreaKey("tree", "components");
+
+    fm.focusOnArrowLeft();
+    expect(tree.key).toBe("src");
+
+    fm.focusOnArrowLeft();
+    expect(requests).toEqual(["collapse:src"]);
+    expect(tree.key).toBe("src");
+  });
+
+  it("swaps expand and collapse between ArrowLeft and ArrowRight in rtl", () => {
+    const rtlTree = new TreeFocusManager({
+      getRootKeys: () => ["src", "docs", "package.json"],
+      getChildren: (key) => children[key] ?? [],
+      getParent: (key) => parents[key] ?? null,
+      isExpanded: (key) => expanded.has(key),
+      onRequestExpand: (key) => expanded.add(key),
+      onRequestCollapse: (key) => expanded.delete(key),
+      getInitialKeyOnAreaFocus: () => "src",
+      getDirection: () => "rtl",
+    });
+
+    const rtlFm = new FocusManager({
+      areas: { tree: rtlTree },
+      maxHistory: 10,
+    });
+    rtlFm.focusArea("tree");
+
+    rtlFm.focusOnArrowLeft();
+    expect(expanded.has("src")).toBe(true);
+
+    rtlFm.focusOnArrowLeft();
+    expect(rtlTree.key).toBe("components");
+
+    rtlFm.focusOnArrowRight();
+    expect(rtlTree.key).toBe("src");
+  });
+
+  it("moves through the visible descendants of expanded nodes", () => {
+    expanded.add("src");
+    expanded.add("components");
+
+    expect(tree.getVisibleKeys()).toEqual([
+      "src",
+      "components",
+      "Button.tsx",
+      "Input.tsx",
+      "index.ts",
+      "docs",
+      "package.json",
+    ]);
+
+    fm.focusOnArrowDown();
+    fm.focusOnArrowDown();
+    expect(tree.key).toBe("Button.tsx");
+  });
+
+  it("goes to the first and last visible node on Home/End", () => {
+    expanded.add("docs");
+    fm.focusAreaKey("tree", "README.md");
+
+    fm.focusOnEnd();
+    expect(tree.key).toBe("package.json");
+
+    fm.focusOnHome();
+    expect(tree.key).toBe("src");
+  });
+
+  it("requests expansion of all collapsible siblings on '*'", () => {
+    fm.focusAreaKey("tree", "package.json");
+    fm.expandSiblings();
+
+    expect(requests).toEqual(["expand:src", "expand:docs"]);
+    expect(tree.key).toBe("package.json");
+  });
+});
@@ -0,0 +1,393 @@
+import type { FocusManager } from "./FocusManager";
+import type {
+  FocusDirection,
+  FocusKey,
+  FocusListOrientation,
+  TreeFocusManagerCallbackContext,
+  TreeFocusManagerProps,
+} from "./types";
+import { clampIndex, getPageTargetIndex } from "./utils";
+
+/**
+ * TreeFocusManager coordinates focus behavior within a hierarchical "tree"-style area,
+ * following the WAI-ARIA tree view pattern.
+ *
+ * Responsibilities:
+ * - Tracks the currently focused node key (`_key`).
+ * - Moves Up/Down through the visible nodes, i.e. roots and the descendants of expanded nodes.
+ * - Right expands a collapsed node or moves to the first child of an expanded one.
+ * - Left collapses an expanded node or moves to the parent of a collapsed one.
+ * - Home/End go to the first/last visible node, and `*` expands all siblings.
+ *
+ * Expansion state is owned by the application: the manager reads it through
+ * `isExpanded` and emits expand/collapse requests instead of changing it.
+ *
+ * @template Meta Optional metadata type associated with focus entries.
+ */
+export class TreeFocusManager<Meta = any> {
+  /**
+   * Creates a new TreeFocusManager.
+   *
+   * @param props Configuration options for the manager:
+   * - `getRootKeys`: Function returning the ordered set of top-level node keys.
+   * - `getChildren`: Function returning the ordered child keys of a node.
+   * - `getParent`: Function returning the parent key of a node.
+   * - `isExpanded`: Function returning whether a node is expanded.
+   * - `onRequestExpand` / `onRequestCollapse`: Callbacks asking the application to change expansion.
+   * - `getFirstVisibleIndex` / `getLastVisibleIndex`: Functions returning the visible node range.
+   * - `getInitialKeyOnAreaFocus`: Function returning the initial key when the area receives focus.
+   * - `getDirection`: Function returning the text direction ("ltr" or "rtl").
+   * - `onEnter` / `onLeave` / `onKeyChange`: Hooks called by the parent FocusManager on focus changes.
+   */
+  constructor(props: TreeFocusManagerProps<Meta>) {
+    this._getRootKeys = props.getRootKeys;
+    this._getChildren = props.getChildren;
+    this._getParent = props.getParent;
+    this._isExpanded = props.isExpanded;
+    this._onRequestExpand = props.onRequestExpand;
+    this._onRequestCollapse = props.onRequestCollapse;
+    this._getFirstVisibleIndex = props.getFirstVisibleIndex;
+    this._getLastVisibleIndex = props.getLastVisibleIndex;
+    this._getInitialKeyOnAreaFocus = props.getInitialKeyOnAreaFocus;
+    this._getDirection = props.getDirection;
+    this._onEnter = props.onEnter;
+    this._onLeave = props.onLeave;
+    this._onKeyChange = props.onKeyChange;
+  }
+
+  kind = "tree" as const;
+
+  protected _key: FocusKey | null = null;
+
+  protected _getRootKeys;
+  protected _getChildren;
+  protected _getParent;
+  protected _isExpanded;
+  protected _onRequestExpand;
+  protected _onRequestCollapse;
+  protected _getFirstVisibleIndex;
+  protected _getLastVisibleIndex;
+  protected _getInitialKeyOnAreaFocus;
+  protected _getDirection;
+  protected _onEnter;
+  protected _onLeave;
+  protected _onKeyChange;
+
+  protected _parent?: FocusManager<any>;
+
+  get parent() {
+    return this._parent;
+  }
+
+  set parent(value: FocusManager<any> | undefined) {
+    this._parent = value;
+  }
+
+  get direction(): FocusDirection {
+    return this._getDirection?.(this.getCallbackContext()) ?? "ltr";
+  }
+
+  get key() {
+    return this._key;
+  }
+
+  set key(value: FocusKey | null) {
+    const apply = () => {
+      this._key = value;
+    };
+
+    if (this._parent) {
+      this._parent.updateAreaKey(apply);
+    }
+    //
+    else {
+      apply();
+    }
+  }
+
+  /**
+   * Returns the ordered set of top-level node keys,
+   * as provided by the `getRootKeys` callback.
+   */
+  getRootKeys(): FocusKey[] {
+    return this._getRootKeys(this.getCallbackContext());
+  }
+
+  /**
+   * Returns the ordered child keys of the given node,
+   * as provided by the `getChildren` callback.
+   */
+  getChildren(key: FocusKey): FocusKey[] {
+    return this._getChildren(key, this.getCallbackContext());
+  }
+
+  /**
+   * Returns the parent key of the given node, or `null` for root nodes.
+   */
+  getParent(key: FocusKey): FocusKey | null {
+    return this._getParent(key, this.getCallbackContext());
+  }
+
+  /**
+   * Returns whether the given node is expanded. Leaf nodes are never
+   * considered expanded, regardless of what `isExpanded` reports.
+   */
+  isExpanded(key: FocusKey): boolean {
+    return (
+      this.getChildren(key).length > 0 &&
+      this._isExpanded(key, this.getCallbackContext())
+    );
+  }
+
+  /**
+   * Returns the keys of all visible nodes in UI order: the roots,
+   * followed depth-first by the children of every expanded node.
+   *
+   * @returns {FocusKey[]} The flattened list of visible node keys.
+   */
+  getVisibleKeys(): FocusKey[] {
+    const visibleKeys: FocusKey[] = [];
+
+    const visit = (keys: FocusKey[]) => {
+      for (const key of keys) {
+        visibleKeys.push(key);
+
+        if (this.isExpanded(key)) {
+          visit(this.getChildren(key));
+        }
+      }
+    };
+
+    visit(this.getRootKeys());
+
+    return visibleKeys;
+  }
+
+  /**
+   * Returns whether the given node is visible, i.e. a root node or
+   * a descendant of expanded nodes only.
+   */
+  hasKey(key: FocusKey): boolean {
+    return this.getVisibleKeys().includes(key);
+  }
+
+  /**
+   * Returns the given node if it is still visible. Otherwise returns the
+   * visible node closest to `index`, the position the node had before it
+   * was removed or hidden.
+   *
+   * @param key The node key to look up.
+   * @param index The last known index of the node among the visible nodes.
+   * @returns {FocusKey | null} The key, or `null` if there are no visible nodes.
+   */
+  getNearestKey(key: FocusKey, index: number): FocusKey | null {
+    const keys = this.getVisibleKeys();
+
+    if (keys.includes(key)) return key;
+    if (keys.length === 0) return null;
+
+    return keys[clampIndex(index, keys.length)];
+  }
+
+  /**
+   * Returns the initial focus key when this area receives focus,
+   * or `null` if no initial key is specified.
+   */
+  getInitialKeyOnAreaFocus() {
+    return this._getInitialKeyOnAreaFocus?.(this.getCallbackContext()) ?? null;
+  }
+
+  /**
+   * Returns the index of the first visible node in the viewport,
+   * or 0 if no callback is specified.
+   */
+  getFirstVisibleIndex(): number {
+    return this._getFirstVisibleIndex?.(this.getCallbackContext()) ?? 0;
+  }
+
+  /**
+   * Returns the index of the last visible node in the viewport,
+   * or the last visible node index if no callback is specified.
+   */
+  getLastVisibleIndex(): number {
+    const keys = this.getVisibleKeys();
+
+    return (
+      this._getLastVisibleIndex?.(this.getCallbackContext()) ??
+      (keys.length > 0 ? keys.length - 1 : 0)
+    );
+  }
+
+  /**
+   * Handles arrow key input.
+   *
+   * - Vertical: moves to the previous/next visible node, stopping at the boundaries.
+   * - Horizontal `1` (Right): requests expansion of a collapsed parent node,
+   *   or moves to the first child of an expanded one. Does nothing on leaves.
+   * - Horizontal `-1` (Left): requests collapse of an expanded node,
+   *   or moves to the parent of a collapsed or leaf node.
+   *
+   * @param orientation - Axis of the arrow key that was pressed.
+   * @param delta - Direction of movement:
+   *   - `-1` for Up/Left
+   *   - `1` for Down/Right
+   */
+  focusOnArrow(orientation: FocusListOrientation, delta: -1 | 1): void {
+    if (orientation === "vertical") {
+      this.focusOnAdjacentNode(delta);
+      return;
+    }
+
+    const key = this._key;
+    if (key == null) return;
+
+    if (delta === 1) {
+      const children = this.getChildren(key);
+      if (children.length === 0) return;
+
+      if (this.isExpanded(key)) {
+        this._key = children[0];
+      }
+      //
+      else {
+        this._onRequestExpand?.(key, this.getCallbackContext());
+      }
+    }
+    //
+    else {
+      if (this.isExpanded(key)) {
+        this._onRequestCollapse?.(key, this.getCallbackContext());
+      }
+      //
+      else {
+        const parentKey = this.getParent(key);
+        if (parentKey != null) {
+          this._key = parentKey;
+        }
+      }
+    }
+  }
+
+  /**
+   * Moves focus by a page of visible nodes, typically triggered by PageUp/PageDown.
+   * Uses the same semantics as `ListFocusManager.focusOnPage`.
+   *
+   * @param delta - Direction of movement:
+   *   - `-1` for PageUp (previous page)
+   *   - `1` for PageDown (next page)
+   */
+  focusOnPage(delta: -1 | 1): void {
+    const keys = this.getVisibleKeys();
+    if (keys.length === 0) return;
+
+    const currentIndex = this._key != null ? keys.indexOf(this._key) : -1;
+
+    const targetIndex = getPageTargetIndex(
+      currentIndex,
+      this.getFirstVisibleIndex(),
+      this.getLastVisibleIndex(),
+      keys.length,
+      delta
+    );
+
+    this._key = keys[targetIndex];
+  }
+
+  /**
+   * Moves focus to the first or last visible node,
+   * typically triggered by Home or End keys.
+   *
+   * @param direction - Direction of movement:
+   *   - `-1`: Home → first node
+   *   - `1`: End → last visible node
+   */
+  focusOnHomeEnd(direction: -1 | 1): void {
+    const keys = this.getVisibleKeys();
+    if (keys.length === 0) return;
+
+    this._key = direction === -1 ? keys[0] : keys[keys.length - 1];
+  }
+
+  /**
+   * Requests expansion of every collapsed sibling of the focused node
+   * (including the node itself), typically triggered by the `*` key.
+   * Focus does not move.
+   */
+  expandSiblings(): void {
+    const key = this._key;
+    if (key == null) return;
+
+    const parentKey = this.getParent(key);
+    const siblings =
+      parentKey != null ? this.getChildren(parentKey) : this.getRootKeys();
+
+    for (const sibling of siblings) {
+      if (this.getChildren(sibling).length > 0 && !this.isExpanded(sibling)) {
+        this._onRequestExpand?.(sibling, this.getCallbackContext());
+      }
+    }
+  }
+
+  /**
+   * Invokes the `onEnter` hook. Called by the parent FocusManager
+   * when this area becomes the active area.
+   */
+  notifyEnter(): void {
+    this._onEnter?.(this.getCallbackContext());
+  }
+
+  /**
+   * Invokes the `onLeave` hook. Called by the parent FocusManager
+   * when this area stops being the active area.
+   */
+  notifyLeave(): void {
+    this._onLeave?.(this.getCallbackContext());
+  }
+
+  /**
+   * Invokes the `onKeyChange` hook with the current key. Called by the parent
+   * FocusManager when the focused key of the active area changes.
+   *
+   * @param prevKey The focused key before the change.
+   */
+  notifyKeyChange(prevKey: FocusKey | null): void {
+    this._onKeyChange?.(this._key, prevKey, this.getCallbackContext());
+  }
+
+  clear() {
+    this._key = null;
+  }
+
+  protected focusOnAdjacentNode(delta: -1 | 1): void {
+    const keys = this.getVisibleKeys();
+
+    const keysLen = keys.length;
+
+    if (keysLen === 0) return;
+
+    const currentIndex = this._key != null ? keys.indexOf(this._key) : -1;
+
+    const targetIndex =
+      currentIndex === -1
+        ? delta === 1
+          ? 0
+          : keysLen - 1
+        : clampIndex(currentIndex + delta, keysLen);
+
+    this._key = keys[targetIndex];
+  }
+
+  protected getCallbackContext(): TreeFocusManagerCallbackContext<Meta> {
+    if (!this.parent) {
+      throw new Error(
+        "TreeFocusManager: parent not assigned. You need to pass this area manager into FocusManager.areas."
+      );
+    }
+
+    return {
+      manager: this,
+      parent: this.parent,
+      meta: (this.parent?.entry?.meta as Meta) ?? null,
+    };
+  }
+}
@@ -1,3 +1,12 @@
+export * from "./ActiveDescendantAdapter";
 export * from "./FocusManager";
+export * from "./FocusStoreAdapter";
+export * from "./FocusTraceRecorder";
+export * from "./GridFocusManager";
+export * from "./keymap";
 export * from "./ListFocusManager";
+export * from "./ListSelectionManager";
+export * from "./RovingTabIndexAdapter";
+export * from "./SpatialFocusManager";
+export * from "./TreeFocusManager";
 export * from "./types";
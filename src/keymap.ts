@@ -0,0 +1,137 @@
+import type { FocusAction, FocusKeyboardEvent, FocusKeymap } from "./types";
+
+/**
+ * The default keymap used by `FocusManager.handleKeyDown`,
+ * following the WAI-ARIA Authoring Practices keyboard conventions.
+ */
+export const defaultKeymap: Readonly<FocusKeymap> = {
+  ArrowUp: "arrowUp",
+  ArrowDown: "arrowDown",
+  ArrowLeft: "arrowLeft",
+  ArrowRight: "arrowRight",
+  Home: "home",
+  End: "end",
+  "Ctrl+Home": "ctrlHome",
+  "Ctrl+End": "ctrlEnd",
+  PageUp: "pageUp",
+  PageDown: "pageDown",
+  "*": "expandSiblings",
+  Escape: "parentArea",
+  Enter: "childArea",
+  F6: "nextLandmark",
+  "Shift+F6": "previousLandmark",
+  "Shift+ArrowUp": "selectArrowUp",
+  "Shift+ArrowDown": "selectArrowDown",
+  "Shift+ArrowLeft": "selectArrowLeft",
+  "Shift+ArrowRight": "selectArrowRight",
+  "Shift+Home": "selectHome",
+  "Shift+End": "selectEnd",
+  "Shift+PageUp": "selectPageUp",
+  "Shift+PageDown": "selectPageDown",
+  "Ctrl+Space": "toggleSelection",
+  "Ctrl+KeyA": "selectAll",
+  "Meta+KeyA": "selectAll",
+};
+
+const nonEditableInputTypes = new Set([
+  "button",
+  "checkbox",
+  "color",
+  "file",
+  "hidden",
+  "image",
+  "radio",
+  "range",
+  "reset",
+  "submit",
+]);
+
+/**
+ * Returns the keymap bindings that match a keyboard event: first the binding
+ * built from `event.key`, then the one built from `event.code`.
+ *
+ * @param event The keyboard event.
+ * @returns {string[]} The matching bindings, in lookup order.
+ */
+export function getKeyBindings(event: FocusKeyboardEvent): string[] {
+  const modifiers = (shiftKey: boolean) =>
+    (event.ctrlKey ? "Ctrl+" : "") +
+    (event.altKey ? "Alt+" : "") +
+    (shiftKey ? "Shift+" : "") +
+    (event.metaKey ? "Meta+" : "");
+
+  const isPrintable = Array.from(event.key).length === 1;
+
+  const bindings = [modifiers(event.shiftKey && !isPrintable) + event.key];
+
+  if (event.code) {
+    bindings.push(modifiers(event.shiftKey) + event.code);
+  }
+
+  return bindings;
+}
+
+/**
+ * Resolves the focus action for a keyboard event.
+ *
+ * Keymaps are searched in order, and the first keymap that has a matching
+ * binding decides the action (a `null` binding resolves to no action). If no
+ * keymap matches, a printable character without Ctrl/Alt/Meta resolves to
+ * `"character"` for type-ahead navigation.
+ *
+ * @param event The keyboard event.
+ * @param keymaps The keymaps to search, highest priority first.
+ * @returns {FocusAction | null} The resolved action, or null if none.
+ */
+export function resolveFocusAction(
+  event: FocusKeyboardEvent,
+  keymaps: (Readonly<FocusKeymap> | undefined)[]
+): FocusAction | null {
+  const bindings = getKeyBindings(event);
+
+  for (const keymap of keymaps) {
+    if (!keymap) continue;
+
+    for (const binding of bindings) {
+      if (Object.prototype.hasOwnProperty.call(keymap, binding)) {
+        return keymap[binding];
+      }
+    }
+  }
+
+  const isPrintable = Array.from(event.key).length === 1;
+
+  if (isPrintable && !event.ctrlKey && !event.altKey && !event.metaKey) {
+    return "character";
+  }
+
+  return null;
+}
+
+/**
+ * Returns whether an event target accepts text input, in which case
+ * arrow keys and characters belong to the target rather than to focus navigation.
+ *
+ * @param target The event target.
+ * @returns {boolean} True for text inputs, textareas, selects and contenteditable elements.
+ */
+export function isEditableTarget(
+  target: EventTarget | null | undefined
+): boolean {
+  if (!target || typeof target !== "object") return false;
+
+  const element = target as Partial<HTMLElement>;
+
+  if (element.isContentEditable) return true;
+
+  const tagName = element.tagName?.toLowerCase();
+
+  if (tagName === "textarea" || tagName === "select") return true;
+
+  if (tagName === "input") {
+    const type = (element as HTMLInputElement).type ?? "text";
+    return !nonEditableInputTypes.has(type.toLowerCase());
+  }
+
+  return false;
+}
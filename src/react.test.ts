@@ -0,0 +1,209 @@
+// @vitest-environment jsdom
+import { act, cleanup, render, screen } from "@testing-library/react";
+import { createElement } from "react";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FocusManager } from "./FocusManager";
+import { GridFocusManager } from "./GridFocusManager";
+import { ListFocusManager } from "./ListFocusManager";
+import {
+  FocusManagerProvider,
+  useAreaKey,
+  useFocusEntry,
+  useFocusManager,
+  useIsFocused,
+} from "./react";
+
+type Areas = {
+  list: ListFocusManager;
+  grid: GridFocusManager;
+};
+
+describe("React bindings", () => {
+  let fm: FocusManager<Areas>;
+  let renders: Record<string, number>;
+
+  const count = (name: string) => {
+    renders[name] = (renders[name] ?? 0) + 1;
+  };
+
+  function Item(props: { id: string }) {
+    const focused = useIsFocused(useFocusManager<Areas>(), "list", props.id);
+    count(props.id);
+
+    return createElement(
+      "li",
+      { "data-testid": props.id },
+      focused ? "focused" : ""
+    );
+  }
+
+  function ActiveArea() {
+    const entry = useFocusEntry(useFocusManager<Areas>());
+    count("entry");
+
+    return createElement("p", { "data-testid": "entry" }, entry?.area ?? "");
+  }
+
+  function GridCell() {
+    const cell = useAreaKey(useFocusManager<Areas>(), "grid");
+    count("grid");
+
+    return createElement(
+      "p",
+      { "data-testid": "grid" },
+      cell ? `${cell.row}:${cell.col}` : ""
+    );
+  }
+
+  const renderApp = () =>
+    render(
+      createElement(
+        FocusManagerProvider<Areas>,
+        { focusManager: fm },
+        createElement(ActiveArea),
+        createElement(GridCell),
+        createElement(
+          "ul",
+          null,
+          ["a", "b", "c"].map((id) => createElement(Item, { key: id, id }))
+        )
+      )
+    );
+
+  beforeEach(() => {
+    renders = {};
+
+    fm = new FocusManager<Areas>({
+      areas: {
+        list: new ListFocusManager({
+          getKeys: () => ["a", "b", "c"],
+          getInitialKeyOnAreaFocus: () => "a",
+        }),
+        grid: new GridFocusManager({
+          getRowKeys: () => ["r1", "r2"],
+          getColumnKeys: () => ["c1", "c2"],
+          getInitialKeyOnAreaFocus: () => ({ row: "r1", col: "c1" }),
+        }),
+      },
+    });
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("rerenders only the items whose focus changed", () => {
+    renderApp();
+    act(() => {
+      fm.focusArea("list");
+    });
+
+    expect(screen.getByTestId("a").textContent).toBe("focused");
+    expect(renders).toEqual({ entry: 2, grid: 1, a: 2, b: 1, c: 1 });
+
+    act(() => {
+      fm.focusOnArrowDown();
+    });
+
+    expect(screen.getByTestId("a").textContent).toBe("");
+    expect(screen.getByTestId("b").textContent).toBe("focused");
+    expect(renders).toEqual({ entry: 2, grid: 1, a: 3, b: 2, c: 1 });
+  });
+
+  it("rerenders useFocusEntry on area changes, not on key moves", () => {
+    renderApp();
+    act(() => {
+      fm.focusArea("list");
+      fm.focusOnArrowDown();
+    });
+    act(() => {
+      fm.focusOnArrowDown();
+    });
+
+    expect(renders.entry).toBe(2);
+
+    act(() => {
+      fm.focusArea("grid");
+    });
+
+    expect(screen.getByTestId("entry").textContent).toBe("grid");
+    expect(screen.getByTestId("c").textContent).toBe("");
+    expect(renders.entry).toBe(3);
+  });
+
+  it("keeps the focused key of an area once it is no longer active", () => {
+    renderApp();
+    act(() => {
+      fm.focusAreaKey("grid", { row: "r2", col: "c1" });
+    });
+
+    expect(screen.getByTestId("grid").textContent).toBe("r2:c1");
+    expect(renders.grid).toBe(2);
+
+    act(() => {
+      fm.focusArea("list");
+    });
+
+    expect(screen.getByTestId("grid").textContent).toBe("r2:c1");
+    expect(renders.grid).toBe(2);
+  });
+
+  it("rerenders useAreaKey when the key of an inactive area changes", () => {
+    renderApp();
+    act(() => {
+      fm.focusAreaKey("grid", { row: "r2", col: "c1" });
+      fm.focusArea("list");
+    });
+
+    act(() => {
+      fm.areas.grid.key = { row: "r1", col: "c2" };
+    });
+
+    expect(fm.entry?.area).toBe("list");
+    expect(screen.getByTestId("grid").textContent).toBe("r1:c2");
+
+    const snapshot = fm.getSnapshot();
+
+    act(() => {
+      fm.areas.grid.key = { row: "r2", col: "c2" };
+    });
+    act(() => {
+      fm.restoreSnapshot(snapshot);
+    });
+
+    expect(screen.getByTestId("grid").textContent).toBe("r1:c2");
+    expect(renders.grid).toBe(5);
+  });
+
+  it("does not rerender for a new grid cell object equal to the focused one", () => {
+    renderApp();
+    act(() => {
+      fm.focusAreaKey("grid", { row: "r1", col: "c2" });
+    });
+    act(() => {
+      fm.focusAreaKey("grid", { row: "r1", col: "c2" });
+      fm.focusArea("list");
+    });
+
+    expect(renders.grid).toBe(2);
+  });
+
+  it("throws when used outside of a FocusManagerProvider", () => {
+    const errors: unknown[] = [];
+
+    function Orphan() {
+      try {
+        useFocusManager();
+      } catch (error) {
+        errors.push(error);
+      }
+
+      return null;
+    }
+
+    render(createElement(Orphan));
+
+    expect(errors[0]).toBeInstanceOf(Error);
+    expect((errors[0] as Error).message).toMatch(/FocusManagerProvider/);
+  });
+});
@@ -0,0 +1,187 @@
+import {
+  createContext,
+  createElement,
+  useCallback,
+  useContext,
+  useRef,
+  useSyncExternalStore,
+  type ReactNode,
+} from "react";
+import type { FocusManager } from "./FocusManager";
+import type {
+  AreaFocusKey,
+  AreaFocusManager,
+  FocusAreaEntry,
+  KeyFromAreaFocusManager,
+} from "./types";
+import { isSameAreaKey } from "./utils";
+
+/**
+ * React bindings for FocusManager, built on `useSyncExternalStore` so that
+ * components read a consistent focus state in concurrent rendering.
+ *
+ * Each hook subscribes to the FocusManager and rerenders its component only
+ * when the value it returns changes.
+ */
+
+const FocusManagerContext = createContext<FocusManager<any> | null>(null);
+
+/**
+ * Props of the `FocusManagerProvider` component.
+ */
+export type FocusManagerProviderProps<
+  T extends Record<string, AreaFocusManager>
+> = {
+  /** The FocusManager made available to `useFocusManager` */
+  focusManager: FocusManager<T>;
+
+  children?: ReactNode;
+};
+
+/**
+ * Makes a FocusManager available to the components below it
+ * through `useFocusManager`.
+ */
+export function FocusManagerProvider<
+  T extends Record<string, AreaFocusManager>
+>(props: FocusManagerProviderProps<T>) {
+  return createElement(
+    FocusManagerContext.Provider,
+    { value: props.focusManager },
+    props.children
+  );
+}
+
+/**
+ * Returns the FocusManager of the nearest `FocusManagerProvider`.
+ *
+ * @throws If there is no `FocusManagerProvider` above the component.
+ */
+export function useFocusManager<
+  T extends Record<string, AreaFocusManager>
+>(): FocusManager<T> {
+  const focusManager = useContext(FocusManagerContext);
+
+  if (!focusManager) {
+    throw new Error(
+      "useFocusManager: no FocusManager found. You need to render this component inside a FocusManagerProvider."
+    );
+  }
+
+  return focusManager;
+}
+
+/**
+ * Returns the active entry of a FocusManager. Rerenders when another entry
+ * becomes active, but not when the focused key moves within the active area.
+ *
+ * @param focusManager The FocusManager to observe.
+ * @returns {FocusAreaEntry<T> | null} The active entry, or null if none.
+ */
+export function useFocusEntry<T extends Record<string, AreaFocusManager>>(
+  focusManager: FocusManager<T>
+): FocusAreaEntry<T> | null {
+  const subscribe = useFocusSubscribe(focusManager);
+
+  return useSyncExternalStore(
+    subscribe,
+    () => focusManager.entry,
+    () => focusManager.entry
+  );
+}
+
+/**
+ * Returns the focused key of an area, whether or not it is the active area.
+ * Rerenders only when that key changes, also when it is set while the area
+ * is inactive, e.g. by `reconcile`, `restoreSnapshot` or a direct assignment
+ * of the area manager's `key`.
+ *
+ * @param focusManager The FocusManager that owns the area.
+ * @param area The identifier of the area.
+ * @returns The focused key of the area (a `{ row, col }` cell for grid areas),
+ * or null if it has none.
+ */
+export function useAreaKey<
+  T extends Record<string, AreaFocusManager>,
+  K extends keyof T
+>(
+  focusManager: FocusManager<T>,
+  area: K
+): KeyFromAreaFocusManager<T[K]> | null {
+  const getSnapshot = useStableAreaKey(() => {
+    const manager: AreaFocusManager | undefined = focusManager.areas[area];
+
+    return manager?.key ?? null;
+  });
+
+  return useSyncExternalStore(
+    useFocusSubscribe(focusManager),
+    getSnapshot,
+    getSnapshot
+  ) as KeyFromAreaFocusManager<T[K]> | null;
+}
+
+/**
+ * Returns whether an area is the active area of a FocusManager and `key` is
+ * its focused key. Rerenders only when that changes, so that moving focus
+ * through a list rerenders the previously and newly focused items only.
+ *
+ * @param focusManager The FocusManager that owns the area.
+ * @param area The identifier of the area.
+ * @param key The key of the item (a `{ row, col }` cell for grid areas).
+ * @returns {boolean} True if the item is focused.
+ */
+export function useIsFocused<
+  T extends Record<string, AreaFocusManager>,
+  K extends keyof T
+>(
+  focusManager: FocusManager<T>,
+  area: K,
+  key: KeyFromAreaFocusManager<T[K]>
+): boolean {
+  const getSnapshot = () => {
+    const entry = focusManager.entry;
+
+    return (
+      entry?.area === area &&
+      isSameAreaKey(entry.manager.key, key as AreaFocusKey)
+    );
+  };
+
+  return useSyncExternalStore(
+    useFocusSubscribe(focusManager),
+    getSnapshot,
+    getSnapshot
+  );
+}
+
+/**
+ * Returns a `subscribe` function for `useSyncExternalStore` that stays the
+ * same for a given FocusManager, so that React does not resubscribe on
+ * every render.
+ */
+function useFocusSubscribe(focusManager: FocusManager<any>) {
+  return useCallback(
+    (onStoreChange: () => void) => focusManager.subscribe(onStoreChange),
+    [focusManager]
+  );
+}
+
+/**
+ * Wraps a key getter so that it keeps returning the same grid cell object
+ * while the cell is equal by value, as `useSyncExternalStore` compares
+ * snapshots by identity.
+ */
+function useStableAreaKey(getKey: () => AreaFocusKey | null) {
+  const ref = useRef<AreaFocusKey | null>(null);
+
+  return () => {
+    const key = getKey();
+
+    if (!isSameAreaKey(ref.current, key)) {
+      ref.current = key;
+    }
+
+    return ref.current;
+  };
+}
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+import { GridFocusManager } from "./GridFocusManager";
+import {
+  createKeyboardEvent,
+  expectFocus,
+  expectHistory,
+  focusMatchers,
+  FocusManagerBuilder,
+  press,
+} from "./testing";
+
+expect.extend(focusMatchers);
+
+const letters = ["a", "b", "c", "d", "e", "f", "g", "h"];
+
+describe("createKeyboardEvent", () => {
+  it("parses modifiers, codes and characters", () => {
+    expect(createKeyboardEvent("Ctrl+Shift+End")).toEqual({
+      key: "End",
+      code: "End",
+      ctrlKey: true,
+      altKey: false,
+      shiftKey: true,
+      metaKey: false,
+    });
+    expect(createKeyboardEvent("Ctrl+KeyA")).toMatchObject({
+      key: "a",
+      code: "KeyA",
+      ctrlKey: true,
+    });
+    expect(createKeyboardEvent("Space")).toMatchObject({
+      key: " ",
+      code: "Space",
+    });
+    expect(createKeyboardEvent("b")).toMatchObject({ key: "b", code: "" });
+    expect(createKeyboardEvent("Ctrl++")).toMatchObject({
+      key: "+",
+      ctrlKey: true,
+    });
+  });
+
+  it("rejects unknown modifiers", () => {
+    expect(() => createKeyboardEvent("Hyper+ArrowDown")).toThrow(
+      'press: invalid key "Hyper+ArrowDown"'
+    );
+  });
+});
+
+describe("FocusManagerBuilder and press", () => {
+  it("navigates lists built from arrays through the keymap", () => {
+    const fm = new FocusManagerBuilder()
+      .list("list", letters, { visible: { first: 4, last: 7 } })
+      .build();
+
+    fm.focusArea("list");
+    const results = press(fm, "ArrowDown ArrowDown End PageUp");
+
+    expect(results.map((result) => result.action)).toEqual([
+      "arrowDown",
+      "arrowDown",
+      "end",
+      "pageUp",
+    ]);
+    expectFocus(fm, "list", "e");
+  });
+
+  it("reads the keys, visible window and disabled keys on every call", () => {
+    const keys = ["a", "b", "c"];
+    const visible = { first: 0, last: 1 };
+    const fm = new FocusManagerBuilder()
+      .list("list", keys, { visible, disabled: ["b"] })
+      .build();
+
+    fm.focusArea("list");
+    press(fm, "ArrowDown");
+    expectFocus(fm, "list", "c");
+
+    keys.push("d", "e");
+    visible.first = 2;
+    visible.last = 3;
+    press(fm, "PageDown");
+    expectFocus(fm, "list", "d");
+  });
+
+  it("passes the keymaps and other props to the FocusManager", () => {
+    const fm = new FocusManagerBuilder()
+      .list("list", letters, { orientation: "horizontal" })
+      .area(
+        "grid",
+        new GridFocusManager({
+          getRowKeys: () => ["r1", "r2"],
+          getColumnKeys: () => ["c1", "c2"],
+          getInitialKeyOnAreaFocus: () => ({ row: "r1", col: "c1" }),
+        })
+      )
+      .build({ keymap: { j: "arrowRight", Tab: "nextArea" } });
+
+    fm.focusArea("list");
+    press(fm, "ArrowRight j ArrowDown");
+    expectFocus(fm, "list", "c");
+
+    press(fm, "Tab ArrowDown");
+    expectFocus(fm, "grid", { row: "r2", col: "c1" });
+
+    // @ts-expect-error "table" is not an area of the builder
+    expect(() => expectFocus(fm, "table")).toThrow();
+    // @ts-expect-error the key of a grid area is a cell
+    expect(() => expectFocus(fm, "grid", "r2")).toThrow();
+  });
+
+  it("returns a new builder for each area", () => {
+    const base = new FocusManagerBuilder().list("list", letters);
+    const withToolbar = base.list("toolbar", ["bold"]);
+
+    expect(Object.keys(base.build().areas)).toEqual(["list"]);
+    expect(Object.keys(withToolbar.build().areas)).toEqual(["list", "toolbar"]);
+  });
+});
+
+describe("assertions", () => {
+  const createFocusManager = () =>
+    new FocusManagerBuilder()
+      .list("list", letters)
+      .list("toolbar", ["bold", "italic"])
+      .build();
+
+  it("describes the actual focus when expectFocus fails", () => {
+    const fm = createFocusManager();
+
+    expect(() => expectFocus(fm, "list", "a")).toThrow(
+      'Expected focus on list:"a", but it is on nothing'
+    );
+
+    fm.focusArea("toolbar");
+
+    expect(() => expectFocus(fm, "list")).toThrow(
+      'Expected focus on list, but it is on toolbar:"bold"'
+    );
+    expect(() => expectFocus(fm, "toolbar")).not.toThrow();
+    expect(() => expectFocus(fm, null)).toThrow(
+      'Expected focus on nothing, but it is on toolbar:"bold"'
+    );
+  });
+
+  it("checks the history position and areas", () => {
+    const fm = createFocusManager();
+
+    fm.focusArea("list");
+    fm.focusArea("toolbar");
+    fm.goBack();
+
+    expectHistory(fm, { index: 0, length: 2, areas: ["list", "toolbar"] });
+    expectHistory(fm, { length: 2 });
+    expect(() => expectHistory(fm, { index: 1, areas: ["list"] })).toThrow(
+      'History mismatch: index: expected 1, got 0; areas: expected ["list"], got ["list","toolbar"]'
+    );
+  });
+
+  it("provides matchers for expect.extend", () => {
+    const fm = createFocusManager();
+
+    fm.focusArea("list");
+    press(fm, "ArrowDown");
+
+    expect(fm).toHaveFocus("list", "b");
+    expect(fm).not.toHaveFocus("toolbar");
+    expect(fm).toHaveHistory({ index: 0, areas: ["list"] });
+    expect(() => expect(fm).toHaveFocus("list", "c")).toThrow(
+      'Expected focus on list:"c", but it is on list:"b"'
+    );
+  });
+});
+
+declare module "vitest" {
+  interface Assertion<T> {
+    toHaveFocus(area: string | null, key?: unknown): T;
+    toHaveHistory(expected: import("./types").FocusHistoryExpectation): T;
+  }
+}
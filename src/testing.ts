@@ -0,0 +1,350 @@
+import { FocusManager } from "./FocusManager";
+import { ListFocusManager } from "./ListFocusManager";
+import type {
+  AreaFocusKey,
+  AreaFocusManager,
+  FocusHistoryExpectation,
+  FocusKey,
+  FocusKeyboardEvent,
+  FocusKeyDownOptions,
+  FocusKeyDownResult,
+  FocusManagerProps,
+  FocusTestListOptions,
+  KeyFromAreaFocusManager,
+} from "./types";
+import { isSameAreaKey } from "./utils";
+
+/**
+ * Helpers for testing keyboard navigation without a DOM.
+ *
+ * The assertions throw plain errors and the matchers follow the
+ * `expect.extend` protocol, so they work in both Vitest and Jest.
+ */
+
+/**
+ * FocusManagerBuilder creates a FocusManager whose areas are ListFocusManagers
+ * built from plain arrays.
+ *
+ * The arrays, visible windows and disabled keys are read on every call, so a
+ * test can change them between key presses. Each `build` creates new list
+ * areas, so one builder can create a FocusManager per test.
+ *
+ * @template T The areas added so far.
+ */
+export class FocusManagerBuilder<
+  T extends Record<string, AreaFocusManager> = {}
+> {
+  /**
+   * Creates a new FocusManagerBuilder. Each added area returns a new builder,
+   * so that the area map `T` grows with it.
+   *
+   * @param areas Functions creating the areas added so far.
+   */
+  constructor(areas: Record<string, () => AreaFocusManager> = {}) {
+    this._areas = areas;
+  }
+
+  protected _areas;
+
+  /**
+   * Adds a list area.
+   *
+   * @param area The area identifier.
+   * @param keys The keys of the list, in order.
+   * @param options The visible window, orientation, disabled keys etc.
+   */
+  list<K extends string>(
+    area: K,
+    keys: FocusKey[],
+    options: FocusTestListOptions = {}
+  ): FocusManagerBuilder<T & Record<K, ListFocusManager>> {
+    const { visible, disabled, columns } = options;
+
+    return this.addArea(
+      area,
+      () =>
+        new ListFocusManager({
+          getKeys: () => keys,
+          getFirstVisibleIndex: () => visible?.first ?? 0,
+          getLastVisibleIndex: () => visible?.last ?? keys.length - 1,
+          getOrientation: () => options.orientation ?? "vertical",
+          getDirection: () => options.direction ?? "ltr",
+          getColumnCount: columns == null ? undefined : () => columns,
+          isKeyDisabled: (key) => disabled?.includes(key) ?? false,
+          getInitialKeyOnAreaFocus: () =>
+            options.initialKey !== undefined
+              ? options.initialKey
+              : keys[0] ?? null,
+          wrapAround: options.wrapAround,
+        })
+    );
+  }
+
+  /**
+   * Adds an area managed by an existing area focus manager, e.g. a grid.
+   * The manager is shared by every FocusManager built with it, so only one
+   * of them can exist at a time.
+   *
+   * @param area The area identifier.
+   * @param manager The area focus manager.
+   */
+  area<K extends string, M extends AreaFocusManager>(
+    area: K,
+    manager: M
+  ): FocusManagerBuilder<T & Record<K, M>> {
+    return this.addArea(area, () => manager);
+  }
+
+  /**
+   * Creates the FocusManager.
+   *
+   * @param props The other props of the FocusManager, e.g. a keymap.
+   */
+  build(props: Omit<FocusManagerProps<T>, "areas"> = {}): FocusManager<T> {
+    const areas: Record<string, AreaFocusManager> = {};
+
+    for (const [area, createArea] of Object.entries(this._areas)) {
+      areas[area] = createArea();
+    }
+
+    return new FocusManager<T>({ ...props, areas: areas as T });
+  }
+
+  protected addArea<K extends string, M extends AreaFocusManager>(
+    area: K,
+    createArea: () => M
+  ): FocusManagerBuilder<T & Record<K, M>> {
+    return new FocusManagerBuilder<T & Record<K, M>>({
+      ...this._areas,
+      [area]: createArea,
+    });
+  }
+}
+
+/**
+ * Converts a key name of `press` into a keyboard event.
+ *
+ * - `"Space"` is the space bar.
+ * - `"KeyA"` / `"Digit1"` set both the code and the character.
+ * - Other names, e.g. `"ArrowDown"`, `"F6"` or `"a"`, are used as `event.key`.
+ *
+ * @param name The key name, optionally prefixed with `Ctrl+`, `Alt+`, `Shift+` or `Meta+`.
+ * @returns {FocusKeyboardEvent} The keyboard event.
+ */
+export function createKeyboardEvent(name: string): FocusKeyboardEvent {
+  const match = /^((?:(?:Ctrl|Alt|Shift|Meta)\+)*)(.+)$/.exec(name);
+
+  if (!match || (match[2].length > 1 && match[2].includes("+"))) {
+    throw new Error(`press: invalid key "${name}"`);
+  }
+
+  const parts = match[1].split("+");
+  let key = match[2];
+
+  const shiftKey = parts.includes("Shift");
+  let code = "";
+
+  if (key === "Space") {
+    key = " ";
+    code = "Space";
+  }
+  //
+  else if (/^Key[A-Z]$/.test(key)) {
+    code = key;
+    key = shiftKey ? key[3] : key[3].toLowerCase();
+  }
+  //
+  else if (/^Digit[0-9]$/.test(key)) {
+    code = key;
+    key = key[5];
+  }
+  //
+  else if (key.length > 1) {
+    code = key;
+  }
+
+  return {
+    key,
+    code,
+    ctrlKey: parts.includes("Ctrl"),
+    altKey: parts.includes("Alt"),
+    shiftKey,
+    metaKey: parts.includes("Meta"),
+  };
+}
+
+/**
+ * Presses a sequence of keys, separated by whitespace, through
+ * `FocusManager.handleKeyDown`, so that the keymaps of the FocusManager apply.
+ *
+ * @example
+ * press(fm, "ArrowDown ArrowDown End PageUp");
+ * press(fm, "Ctrl+Home Shift+ArrowDown KeyB");
+ *
+ * @param focusManager The FocusManager receiving the keys.
+ * @param keys The key names, see `createKeyboardEvent`.
+ * @param options The options passed to `handleKeyDown`.
+ * @returns {FocusKeyDownResult[]} The result of each key press.
+ */
+export function press(
+  focusManager: FocusManager<any>,
+  keys: string,
+  options?: FocusKeyDownOptions
+): FocusKeyDownResult[] {
+  return keys
+    .trim()
+    .split(/\s+/)
+    .filter((name) => name !== "")
+    .map((name) =>
+      focusManager.handleKeyDown(createKeyboardEvent(name), options)
+    );
+}
+
+/**
+ * Returns the areas of the history entries of a FocusManager, oldest first.
+ */
+export function getHistoryAreas(focusManager: FocusManager<any>): string[] {
+  const { index, length } = focusManager.getHistoryPosition();
+  const areas: string[] = [];
+
+  for (let i = 0; i < length; i++) {
+    areas.push(focusManager.getEntryAt(i - index)!.area);
+  }
+
+  return areas;
+}
+
+/**
+ * Throws unless `area` is the active area of the FocusManager and `key` its
+ * focused key. Grid cells are compared by value.
+ *
+ * @param focusManager The FocusManager to check.
+ * @param area The expected active area, or null for no focus.
+ * @param key The expected focused key. If omitted, only the area is checked.
+ */
+export function expectFocus<
+  T extends Record<string, AreaFocusManager>,
+  K extends keyof T & string
+>(
+  focusManager: FocusManager<T>,
+  area: K | null,
+  key?: KeyFromAreaFocusManager<T[K]> | null
+) {
+  const message = getFocusMismatch(focusManager, area, key);
+
+  if (message) {
+    throw new Error(message);
+  }
+}
+
+/**
+ * Throws unless the history of the FocusManager matches `expected`.
+ *
+ * @param focusManager The FocusManager to check.
+ * @param expected The expected index, length and areas of the history.
+ */
+export function expectHistory(
+  focusManager: FocusManager<any>,
+  expected: FocusHistoryExpectation
+) {
+  const message = getHistoryMismatch(focusManager, expected);
+
+  if (message) {
+    throw new Error(message);
+  }
+}
+
+/**
+ * Matchers for `expect.extend`, in Vitest or Jest:
+ *
+ * @example
+ * expect.extend(focusMatchers);
+ * expect(fm).toHaveFocus("list", "b");
+ * expect(fm).toHaveHistory({ index: 1, areas: ["list", "toolbar"] });
+ */
+export const focusMatchers = {
+  toHaveFocus(
+    received: FocusManager<any>,
+    area: string | null,
+    key?: AreaFocusKey | null
+  ) {
+    const message = getFocusMismatch(received, area, key);
+
+    return {
+      pass: message === null,
+      message: () =>
+        message ??
+        `Expected focus not to be on ${formatFocus(area, key ?? null)}`,
+    };
+  },
+
+  toHaveHistory(
+    received: FocusManager<any>,
+    expected: FocusHistoryExpectation
+  ) {
+    const message = getHistoryMismatch(received, expected);
+
+    return {
+      pass: message === null,
+      message: () =>
+        message ?? `Expected history not to match ${JSON.stringify(expected)}`,
+    };
+  },
+};
+
+function getFocusMismatch(
+  focusManager: FocusManager<any>,
+  area: string | null,
+  key?: AreaFocusKey | null
+): string | null {
+  const entry = focusManager.entry;
+  const actualArea = entry?.area ?? null;
+  const actualKey: AreaFocusKey | null = entry?.manager.key ?? null;
+
+  if (
+    actualArea === area &&
+    (key === undefined || isSameAreaKey(actualKey, key))
+  ) {
+    return null;
+  }
+
+  return `Expected focus on ${formatFocus(
+    area,
+    key ?? null
+  )}, but it is on ${formatFocus(actualArea, actualKey)}`;
+}
+
+function getHistoryMismatch(
+  focusManager: FocusManager<any>,
+  expected: FocusHistoryExpectation
+): string | null {
+  const actual = {
+    ...focusManager.getHistoryPosition(),
+    areas: getHistoryAreas(focusManager),
+  };
+
+  const differences = (
+    Object.keys(expected) as (keyof FocusHistoryExpectation)[]
+  )
+    .filter(
+      (field) =>
+        expected[field] !== undefined &&
+        JSON.stringify(expected[field]) !== JSON.stringify(actual[field])
+    )
+    .map(
+      (field) =>
+        `${field}: expected ${JSON.stringify(
+          expected[field]
+        )}, got ${JSON.stringify(actual[field])}`
+    );
+
+  return differences.length > 0
+    ? `History mismatch: ${differences.join("; ")}`
+    : null;
+}
+
+function formatFocus(area: string | null, key: AreaFocusKey | null) {
+  if (area === null) return "nothing";
+
+  return key === null ? area : `${area}:${JSON.stringify(key)}`;
+}
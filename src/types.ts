@@ -1,12 +1,27 @@
 import type { FocusManager } from "./FocusManager";
+import type { GridFocusManager } from "./GridFocusManager";
 import type { ListFocusManager } from "./ListFocusManager";
+import type { ListSelectionManager } from "./ListSelectionManager";
+import type { SpatialFocusManager } from "./SpatialFocusManager";
+import type { TreeFocusManager } from "./TreeFocusManager";
+
+/**
+ * Union of all area focus manager kinds that can be registered in a FocusManager.
+ * A nested FocusManager registered as an area is a composite area.
+ */
+export type AreaFocusManager =
+  | ListFocusManager
+  | GridFocusManager
+  | TreeFocusManager
+  | SpatialFocusManager
+  | FocusManager<any>;
 
 /**
  * Props used to configure a FocusManager instance.
  *
  * @template T A record mapping area names to their corresponding area focus manager.
  */
-export type FocusManagerProps<T extends Record<string, ListFocusManager>> = {
+export type FocusManagerProps<T extends Record<string, AreaFocusManager>> = {
   /**
    * A mapping of focusable areas in the application.
    * Each key represents an area identifier, and the value is
@@ -14,31 +29,435 @@ export type FocusManagerProps<T extends Record<string, ListFocusManager>> = {
    */
   areas: T;
 
+  /**
+   * Optional area focused when this FocusManager is focused as a composite
+   * area of a parent FocusManager. Defaults to the first area in `areas`.
+   */
+  initialArea?: keyof T;
+
+  /**
+   * Optional order of the areas visited by `focusNextArea` / `focusPreviousArea`
+   * for the `"tab"` sequence, as an array or a callback returning one.
+   * Areas left out are skipped. Defaults to the order of `areas`.
+   */
+  areaOrder?: FocusAreaOrder<T>;
+
+  /**
+   * Optional order of the areas visited for the `"landmark"` sequence (F6).
+   * Defaults to `areaOrder`.
+   */
+  landmarkOrder?: FocusAreaOrder<T>;
+
+  /**
+   * Whether `focusNextArea` / `focusPreviousArea` wrap around from the last
+   * area to the first one and vice versa. Defaults to false.
+   */
+  wrapAreas?: boolean;
+
+  /**
+   * Optional hook called when `focusNextArea` / `focusPreviousArea` move past
+   * the first or last area, so that the browser can move focus out of the
+   * managed region.
+   */
+  onLeaveRegion?: (event: FocusLeaveRegionEvent) => void;
+
   /**
    * Optional cap on the number of focus area entries stored in the history stack.
    * Defaults to 20 if not provided.
    * Helps prevent unbounded growth of the history when focus changes frequently.
    */
   maxHistory?: number;
+
+  /**
+   * Optional keymap used by `handleKeyDown`, merged over the default keymap.
+   * Map a binding to `null` to disable a default binding.
+   */
+  keymap?: FocusKeymap;
+
+  /**
+   * Optional per-area keymaps used by `handleKeyDown` while that area is active.
+   * They take precedence over `keymap` and the default keymap.
+   */
+  areaKeymaps?: { [K in keyof T]?: FocusKeymap };
 };
 
-export type FocusAreaEntry<T extends Record<string, ListFocusManager>> = {
+export type FocusAreaEntry<T extends Record<string, AreaFocusManager>> = {
   [K in keyof T]: {
     area: K;
     source: FocusSource;
     meta: MetaFromAreaFocusManager<T[K]> | null;
     manager: T[K];
+
+    /**
+     * The focused key of the area, recorded when the entry is left
+     * and restored by history navigation.
+     */
+    key?: KeyFromAreaFocusManager<T[K]> | null;
+
+    /**
+     * The index of `key` when the entry was left (the row index for grids),
+     * used to restore a nearby key if `key` no longer exists.
+     */
+    keyIndex?: number;
+
+    /**
+     * The focus path inside a composite area, recorded when the entry is left
+     * so that history navigation can restore the nested state.
+     */
+    path?: FocusPathEntry[];
   };
 }[keyof T];
 
+/**
+ * One level of a focus path, as returned by `FocusManager.getFocusPath`.
+ * For composite areas, `key` is the active area of the nested FocusManager.
+ */
+export type FocusPathEntry = {
+  area: string;
+  key: AreaFocusKey | null;
+  meta: unknown;
+};
+
 export type FocusSource = "keyboard" | "pointer" | "programmatic";
 
+/**
+ * The context passed to FocusManager callbacks.
+ */
+export type FocusManagerCallbackContext<
+  T extends Record<string, AreaFocusManager>
+> = {
+  manager: FocusManager<T>;
+};
+
+/**
+ * An area traversal sequence:
+ * - `"tab"`: moves between areas on Tab / Shift+Tab.
+ * - `"landmark"`: moves between landmark areas on F6 / Shift+F6.
+ */
+export type FocusAreaSequence = "tab" | "landmark";
+
+/**
+ * The order of the areas in an area traversal sequence.
+ */
+export type FocusAreaOrder<T extends Record<string, AreaFocusManager>> =
+  | (keyof T)[]
+  | ((ctx: FocusManagerCallbackContext<T>) => (keyof T)[]);
+
+/**
+ * A plain, JSON-serializable copy of the focus state of a FocusManager,
+ * as returned by `FocusManager.getSnapshot`.
+ */
+export type FocusSnapshot = {
+  /** The history entries, oldest first */
+  entries: FocusSnapshotEntry[];
+
+  /** The index of the active entry, or -1 if none */
+  index: number;
+
+  /** The focused key of each list, grid and tree area */
+  keys: Record<string, AreaFocusKey | null>;
+
+  /** The snapshots of composite areas */
+  children: Record<string, FocusSnapshot>;
+};
+
+/**
+ * A history entry of a `FocusSnapshot`.
+ */
+export type FocusSnapshotEntry = {
+  area: string;
+  source: FocusSource;
+  meta: unknown;
+  key?: AreaFocusKey | null;
+  keyIndex?: number;
+  path?: FocusPathEntry[];
+};
+
+/**
+ * Options for `FocusManager.getSnapshot`.
+ */
+export type FocusSnapshotOptions = {
+  /**
+   * Converts entry meta into a JSON-serializable value.
+   * Defaults to passing meta through unchanged.
+   */
+  serializeMeta?: (meta: unknown, area: string) => unknown;
+};
+
+/**
+ * Options for `FocusManager.restoreSnapshot`.
+ */
+export type FocusRestoreOptions = {
+  /**
+   * Converts meta serialized by `serializeMeta` back into entry meta.
+   * Defaults to passing meta through unchanged.
+   */
+  deserializeMeta?: (meta: unknown, area: string) => unknown;
+};
+
+/**
+ * Options for `FocusManager.pushScope`.
+ */
+export type FocusScopeOptions<T extends Record<string, AreaFocusManager>> = {
+  /** The areas that can receive focus while the scope is active */
+  areas: (keyof T)[];
+
+  /** The area focused when the scope is pushed. Defaults to the first area. */
+  initialArea?: keyof T;
+};
+
+/**
+ * An active focus scope, as returned by `FocusManager.scope`.
+ */
+export type FocusScope<T extends Record<string, AreaFocusManager>> =
+  FocusScopeOptions<T> & {
+    /** The active entry when the scope was pushed, restored when it is popped */
+    entry: FocusAreaEntry<T> | null;
+
+    /** The focus path when the scope was pushed, restored when it is popped */
+    path: FocusPathEntry[];
+  };
+
+/**
+ * The position of the active entry in the history stack of a FocusManager.
+ */
+export type FocusHistoryPosition = {
+  /** The index of the active entry, or -1 if there is none */
+  index: number;
+
+  /** The number of entries in the history stack */
+  length: number;
+};
+
+/**
+ * Describes area traversal moving past the first or last area.
+ */
+export type FocusLeaveRegionEvent = {
+  /** `-1` when moving past the first area, `1` when moving past the last one */
+  direction: -1 | 1;
+
+  /** The traversal sequence */
+  sequence: FocusAreaSequence;
+};
+
+/**
+ * The kind of FocusManager operation that caused a focus change:
+ * - `"area"`: `focusArea` / `focusAreaKey`, area traversal and focus scopes.
+ * - `"key"`: a key move within the active area (`focusOn*` methods), including
+ *   arrow keys leaving a spatial area at its edge for a neighbouring area.
+ * - `"history"`: a history jump (`go` / `goBack`).
+ * - `"reconcile"`: `reconcile` replaced focused keys that no longer exist.
+ * - `"unregister"`: `unregisterArea` removed the active area.
+ * - `"clear"`: `clear`.
+ */
+export type FocusChangeType =
+  | "area"
+  | "key"
+  | "history"
+  | "reconcile"
+  | "unregister"
+  | "clear";
+
+/**
+ * Describes a single focus state change, passed to FocusManager subscribers.
+ */
+export type FocusChangeEvent<T extends Record<string, AreaFocusManager>> = {
+  /** The kind of operation that caused the change */
+  type: FocusChangeType;
+
+  /** The origin of the change */
+  source: FocusSource;
+
+  /** The active entry before the change */
+  prevEntry: FocusAreaEntry<T> | null;
+
+  /** The active entry after the change */
+  entry: FocusAreaEntry<T> | null;
+
+  /** The focused key of the previously active area, before the change */
+  prevKey: AreaFocusKey | null;
+
+  /** The focused key of the active area, after the change */
+  key: AreaFocusKey | null;
+
+  /** The focus path from this FocusManager to the innermost area, before the change */
+  prevPath: FocusPathEntry[];
+
+  /** The focus path from this FocusManager to the innermost area, after the change */
+  path: FocusPathEntry[];
+};
+
+/**
+ * A keyboard action that `FocusManager.handleKeyDown` can dispatch,
+ * each corresponding to one of the `focusOn*` methods.
+ */
+export type FocusAction =
+  | "arrowUp"
+  | "arrowDown"
+  | "arrowLeft"
+  | "arrowRight"
+  | "home"
+  | "end"
+  | "ctrlHome"
+  | "ctrlEnd"
+  | "pageUp"
+  | "pageDown"
+  | "expandSiblings"
+  | "parentArea"
+  | "childArea"
+  | "nextArea"
+  | "previousArea"
+  | "nextLandmark"
+  | "previousLandmark"
+  | "selectArrowUp"
+  | "selectArrowDown"
+  | "selectArrowLeft"
+  | "selectArrowRight"
+  | "selectHome"
+  | "selectEnd"
+  | "selectPageUp"
+  | "selectPageDown"
+  | "toggleSelection"
+  | "selectAll"
+  | "character";
+
+/**
+ * Maps key bindings to focus actions.
+ *
+ * A binding is a `KeyboardEvent.key` or `KeyboardEvent.code` value, optionally
+ * prefixed with modifiers in the order `Ctrl+Alt+Shift+Meta+`, e.g. `"ArrowDown"`,
+ * `"Ctrl+Home"` or `"Alt+KeyJ"`. Shift is ignored for single printable `key`
+ * values, since it is already reflected in the character (`"*"`, not `"Shift+*"`).
+ *
+ * A `null` value unbinds the key, hiding bindings from lower-priority keymaps.
+ */
+export type FocusKeymap = Record<string, FocusAction | null>;
+
+/**
+ * The subset of `KeyboardEvent` read by `FocusManager.handleKeyDown`.
+ */
+export type FocusKeyboardEvent = Pick<
+  KeyboardEvent,
+  "key" | "code" | "ctrlKey" | "altKey" | "shiftKey" | "metaKey"
+> &
+  Partial<Pick<KeyboardEvent, "isComposing" | "keyCode" | "target">>;
+
+/**
+ * Options for `FocusManager.handleKeyDown`.
+ */
+export type FocusKeyDownOptions = {
+  /**
+   * Whether to handle events that come from editable targets (text inputs,
+   * textareas, selects and contenteditable elements). Defaults to false.
+   */
+  allowEditableTargets?: boolean;
+};
+
+/**
+ * The result of `FocusManager.handleKeyDown`.
+ */
+export type FocusKeyDownResult = {
+  /** The action the event was mapped to, or null if none */
+  action: FocusAction | null;
+
+  /**
+   * Whether the active area handled the action. Callers should call
+   * `preventDefault()` when this is true, even if focus did not move.
+   */
+  handled: boolean;
+
+  /** Whether the active entry or focused key changed */
+  changed: boolean;
+};
+
+export type FocusChangeListener<T extends Record<string, AreaFocusManager>> = (
+  event: FocusChangeEvent<T>
+) => void;
+
+/**
+ * A public FocusManager operation, reported to the listeners registered with
+ * `FocusManager.onOperation` and recorded by FocusTraceRecorder.
+ */
+export type FocusOperation =
+  | "focusArea"
+  | "focusAreaKey"
+  | "focusNextArea"
+  | "focusPreviousArea"
+  | "focusParentArea"
+  | "focusChildArea"
+  | "focusOnArrowUp"
+  | "focusOnArrowDown"
+  | "focusOnArrowLeft"
+  | "focusOnArrowRight"
+  | "focusOnHome"
+  | "focusOnEnd"
+  | "focusOnPageUp"
+  | "focusOnPageDown"
+  | "focusOnCharacter"
+  | "go"
+  | "goBack"
+  | "clear"
+  | "pushScope"
+  | "popScope"
+  | "reconcile"
+  | "restoreSnapshot"
+  | "registerArea"
+  | "unregisterArea"
+  | "expandSiblings"
+  | "toggleSelection"
+  | "selectAll";
+
+/**
+ * Describes a completed FocusManager operation, passed to operation listeners.
+ */
+export type FocusOperationEvent = {
+  /** The name of the FocusManager method that was called */
+  operation: FocusOperation;
+
+  /** The arguments of the call, after defaults were applied */
+  args: unknown[];
+
+  /** The source of the last focus change made by the call, or null if focus did not change */
+  source: FocusSource | null;
+};
+
+export type FocusOperationListener = (event: FocusOperationEvent) => void;
+
 export type MetaFromAreaFocusManager<M> = M extends ListFocusManager<infer Meta>
   ? Meta
+  : M extends GridFocusManager<infer Meta>
+  ? Meta
+  : M extends TreeFocusManager<infer Meta>
+  ? Meta
+  : M extends SpatialFocusManager<infer Meta>
+  ? Meta
+  : M extends FocusManager<any>
+  ? unknown
+  : never;
+
+/**
+ * The type of the focused key held by an area focus manager:
+ * a `FocusKey` for lists, trees and spatial areas, a `GridFocusCell` for grids,
+ * and the name of the active area for composite areas.
+ */
+export type KeyFromAreaFocusManager<M> = M extends ListFocusManager
+  ? FocusKey
+  : M extends GridFocusManager
+  ? GridFocusCell
+  : M extends TreeFocusManager
+  ? FocusKey
+  : M extends SpatialFocusManager
+  ? FocusKey
+  : M extends FocusManager<infer C>
+  ? Extract<keyof C, string>
   : never;
 
 /**
  * Configuration options for creating a ListFocusManager instance.
+ *
+ * The keys are provided either all at once through `getKeys`, or one at a
+ * time through `getKeyCount`, `getKeyAt` and `getIndexOfKey`, e.g. for
+ * virtualized lists with millions of items.
  */
 export type ListFocusManagerProps<Meta> = {
   /**
@@ -49,9 +468,38 @@ export type ListFocusManagerProps<Meta> = {
    * The order of keys determines how keyboard navigation moves
    * focus through the list.
    *
+   * Required unless `getKeyCount`, `getKeyAt` and `getIndexOfKey` are provided.
+   *
    * @returns {FocusKey[]} An array of keys in UI order.
    */
-  getKeys: (ctx: ListFocusManagerCallbackContext<Meta>) => FocusKey[];
+  getKeys?: (ctx: ListFocusManagerCallbackContext<Meta>) => FocusKey[];
+
+  /**
+   * Returns the number of items in the list.
+   * Called at most once per navigation operation.
+   */
+  getKeyCount?: (ctx: ListFocusManagerCallbackContext<Meta>) => number;
+
+  /**
+   * Returns the key of the item at the given index, in UI order.
+   *
+   * Called at most once per index per navigation operation, and only for the
+   * items that navigation visits (the target item and any disabled items
+   * skipped on the way).
+   */
+  getKeyAt?: (
+    index: number,
+    ctx: ListFocusManagerCallbackContext<Meta>
+  ) => FocusKey;
+
+  /**
+   * Returns the index of the given key, or -1 if it is not in the list.
+   * Called at most once per key per navigation operation.
+   */
+  getIndexOfKey?: (
+    key: FocusKey,
+    ctx: ListFocusManagerCallbackContext<Meta>
+  ) => number;
 
   /**
    * Returns the index of the first visible item in the viewport.
@@ -85,14 +533,45 @@ export type ListFocusManagerProps<Meta> = {
    * Orientation determines which arrow keys are meaningful:
    * - `"vertical"`: Up/Down arrows move focus.
    * - `"horizontal"`: Left/Right arrows move focus.
+   * - `"inline"` / `"block"`: Logical axes, resolved to a physical orientation
+   *   through `getWritingMode` (e.g. `"inline"` is horizontal in `"horizontal-tb"`
+   *   and vertical in `"vertical-rl"`).
    *
    * If omitted, defaults to `"vertical"`.
    *
-   * @returns {"vertical" | "horizontal"} The orientation of the list.
+   * @returns {FocusListAxis} The orientation of the list.
    */
   getOrientation?: (
     ctx: ListFocusManagerCallbackContext<Meta>
-  ) => FocusListOrientation;
+  ) => FocusListAxis;
+
+  /**
+   * Returns the text direction of the list.
+   *
+   * In `"rtl"`, ArrowLeft moves to the next item and ArrowRight to the previous
+   * one in horizontal lists (and in vertical lists of vertical writing modes,
+   * whose inline axis runs bottom to top).
+   *
+   * If omitted, defaults to `"ltr"`.
+   *
+   * @returns {FocusDirection} The text direction of the list.
+   */
+  getDirection?: (ctx: ListFocusManagerCallbackContext<Meta>) => FocusDirection;
+
+  /**
+   * Returns the writing mode of the list, mirroring the CSS `writing-mode` property.
+   *
+   * The writing mode maps the logical `"inline"`/`"block"` orientations to
+   * physical axes, and decides which way the block axis runs: in `"vertical-rl"`
+   * the next item of a horizontal list is to the left.
+   *
+   * If omitted, defaults to `"horizontal-tb"`.
+   *
+   * @returns {FocusWritingMode} The writing mode of the list.
+   */
+  getWritingMode?: (
+    ctx: ListFocusManagerCallbackContext<Meta>
+  ) => FocusWritingMode;
 
   /**
    * Returns the key that should be focused when the area
@@ -118,12 +597,160 @@ export type ListFocusManagerProps<Meta> = {
    * @returns {boolean} True if focus should wrap around, false otherwise.
    */
   wrapAround?: boolean;
+
+  /**
+   * Whether PageUp/PageDown also page through horizontal lists, e.g.
+   * horizontally scrolling timelines or carousels.
+   *
+   * Pages are determined by `getFirstVisibleIndex`/`getLastVisibleIndex`, as in
+   * vertical lists. PageDown moves rightward: toward the end of the list in
+   * left-to-right text, and toward its start in right-to-left text, where
+   * paging deltas are flipped like arrow deltas.
+   *
+   * Optional: defaults to `false`, leaving PageUp/PageDown unhandled in
+   * horizontal lists.
+   */
+  horizontalPaging?: boolean;
+
+  /**
+   * Returns the number of items per row, enabling a flow layout in which the
+   * keys wrap into rows, e.g. icon views, emoji pickers and thumbnail galleries.
+   *
+   * In a flow layout:
+   * - Items follow the inline axis and rows the block axis of the writing mode,
+   *   so ArrowLeft/ArrowRight move by one item and ArrowUp/ArrowDown by one row
+   *   in `"horizontal-tb"`. `getOrientation` is ignored.
+   * - Moving by rows keeps the column. Missing columns of a shorter last row
+   *   are replaced by its last item, and the column is restored when moving on.
+   * - Home/End move within the focused row; Ctrl+Home/End within the whole list.
+   * - PageUp/PageDown move by whole visible rows.
+   *
+   * Optional: without it, the list has a single axis.
+   *
+   * @returns {number} The number of items per row.
+   */
+  getColumnCount?: (ctx: ListFocusManagerCallbackContext<Meta>) => number;
+
+  /**
+   * Returns whether the given item is disabled.
+   *
+   * Disabled items stay in `getKeys()` (and in the accessibility tree), but
+   * arrow, page, Home/End and type-ahead navigation skip over them, and a
+   * disabled initial key falls back to its nearest enabled neighbour.
+   *
+   * Optional: if omitted, all items are enabled.
+   *
+   * @returns {boolean} True if the item is disabled.
+   */
+  isKeyDisabled?: (
+    key: FocusKey,
+    ctx: ListFocusManagerCallbackContext<Meta>
+  ) => boolean;
+
+  /**
+   * Whether disabled items can still receive focus, as the WAI-ARIA
+   * Authoring Practices permit for items such as disabled menu items.
+   *
+   * - `true`: Navigation treats disabled items like any other item.
+   * - `false` (default): Navigation skips disabled items.
+   */
+  focusDisabledKeys?: boolean;
+
+  /**
+   * Returns the text label of an item, used for type-ahead (type-to-select)
+   * navigation via `FocusManager.focusOnCharacter`.
+   *
+   * Optional: if omitted, type-ahead is disabled for this area.
+   *
+   * @returns {string} The label the user sees for the item.
+   */
+  getLabel?: (
+    key: FocusKey,
+    ctx: ListFocusManagerCallbackContext<Meta>
+  ) => string;
+
+  /**
+   * Number of milliseconds after the last typed character before the
+   * type-ahead search buffer is reset. Defaults to 500.
+   */
+  typeAheadTimeout?: number;
+
+  /**
+   * Locale(s) used by the `Intl.Collator` that compares typed characters
+   * against item labels. Defaults to the runtime's default locale.
+   */
+  typeAheadLocale?: string | string[];
+
+  /**
+   * Returns the key that replaces the focused key when it is no longer
+   * returned by `getKeys()`, e.g. because it was deleted or filtered out.
+   *
+   * Optional: by default the key that took its place is focused, or the
+   * previous key if it was the last one.
+   *
+   * @param removedKey The focused key that no longer exists.
+   * @param lastIndex The last known index of the removed key, or -1 if unknown.
+   * @returns {FocusKey | null} The key to focus, or `null` to clear focus.
+   */
+  getFallbackKey?: (
+    removedKey: FocusKey,
+    lastIndex: number,
+    ctx: ListFocusManagerCallbackContext<Meta>
+  ) => FocusKey | null;
+
+  /**
+   * The selection model of this list. Enables the Shift+Arrow, Shift+Home/End,
+   * Shift+PageUp/PageDown, Ctrl+Space and Ctrl+A keyboard selection actions.
+   *
+   * Optional: lists without a selection leave those keys unhandled.
+   */
+  selection?: ListSelectionManager;
+
+  /**
+   * Called when this area becomes the active area of its FocusManager.
+   */
+  onEnter?: (ctx: ListFocusManagerCallbackContext<Meta>) => void;
+
+  /**
+   * Called when this area stops being the active area of its FocusManager.
+   */
+  onLeave?: (ctx: ListFocusManagerCallbackContext<Meta>) => void;
+
+  /**
+   * Called when the focused key of this area changes while it is
+   * (or as it becomes) the active area.
+   */
+  onKeyChange?: (
+    key: FocusKey | null,
+    prevKey: FocusKey | null,
+    ctx: ListFocusManagerCallbackContext<Meta>
+  ) => void;
 };
 
 export type FocusKey = string | number;
 
+/**
+ * Any key an area focus manager can hold: a `FocusKey` or a `GridFocusCell`.
+ */
+export type AreaFocusKey = FocusKey | GridFocusCell;
+
 export type FocusListOrientation = "horizontal" | "vertical";
 
+/**
+ * A physical orientation, or a logical axis resolved through the writing mode.
+ */
+export type FocusListAxis = FocusListOrientation | "inline" | "block";
+
+export type FocusDirection = "ltr" | "rtl";
+
+export type FocusWritingMode = "horizontal-tb" | "vertical-rl" | "vertical-lr";
+
+export type FocusArrowKey =
+  | "ArrowUp"
+  | "ArrowDown"
+  | "ArrowLeft"
+  | "ArrowRight";
+
 /**
  * Context passed into ListFocusManager callbacks.
  * Provides access to the manager itself, its parent FocusManager,
@@ -139,3 +766,763 @@ export type ListFocusManagerCallbackContext<Meta> = {
   /** Metadata associated with the current focus area entry */
   meta: Meta | null;
 };
+
+/**
+ * How a ListSelectionManager selects keys.
+ *
+ * - `"single"`: at most one key is selected; Ctrl+Space selects the focused key.
+ * - `"multiple"`: moving focus leaves the selection as it is; Shift extends
+ *   the selection from the anchor and Ctrl+Space toggles the focused key.
+ * - `"followFocus"`: like `"multiple"`, but moving focus without Shift
+ *   selects the focused key only.
+ */
+export type ListSelectionMode = "single" | "multiple" | "followFocus";
+
+/**
+ * Configuration options for creating a ListSelectionManager instance.
+ */
+export type ListSelectionManagerProps = {
+  /**
+   * How keys are selected.
+   *
+   * Optional: defaults to `"multiple"`.
+   */
+  mode?: ListSelectionMode;
+
+  /**
+   * Returns the selected keys from an external selection store.
+   *
+   * Optional: when provided, selection state is owned by the application; the
+   * manager only reads it and emits the next selection through `onSelectionChange`.
+   * Otherwise the manager keeps the selection itself.
+   *
+   * @returns {FocusKey[]} The selected keys.
+   */
+  getSelectedKeys?: (ctx: ListSelectionManagerCallbackContext) => FocusKey[];
+
+  /**
+   * Called when the manager changes the selection (or asks the external
+   * store to change it), with the selected keys in list order.
+   */
+  onSelectionChange?: (
+    keys: FocusKey[],
+    prevKeys: FocusKey[],
+    ctx: ListSelectionManagerCallbackContext
+  ) => void;
+};
+
+/**
+ * Context object passed to ListSelectionManager callbacks.
+ */
+export type ListSelectionManagerCallbackContext = {
+  /** The list selection manager instance */
+  manager: ListSelectionManager;
+
+  /** The list whose keys are selected */
+  list: ListFocusManager<any>;
+};
+
+/**
+ * Describes a single selection change, passed to ListSelectionManager subscribers.
+ */
+export type ListSelectionChangeEvent = {
+  /** The selected keys before the change */
+  prevSelectedKeys: FocusKey[];
+
+  /** The selected keys after the change */
+  selectedKeys: FocusKey[];
+
+  /** The key that ranges are extended from */
+  anchor: FocusKey | null;
+};
+
+export type ListSelectionChangeListener = (
+  event: ListSelectionChangeEvent
+) => void;
+
+/**
+ * Configuration options for creating a GridFocusManager instance.
+ */
+export type GridFocusManagerProps<Meta> = {
+  /**
+   * Returns the ordered list of row keys in the grid.
+   *
+   * The order of keys determines how ArrowUp/ArrowDown and
+   * PageUp/PageDown move focus between rows.
+   *
+   * @returns {FocusKey[]} An array of row keys in UI order.
+   */
+  getRowKeys: (ctx: GridFocusManagerCallbackContext<Meta>) => FocusKey[];
+
+  /**
+   * Returns the ordered list of column keys in the grid.
+   *
+   * The order of keys determines how ArrowLeft/ArrowRight and
+   * Home/End move focus between columns.
+   *
+   * @returns {FocusKey[]} An array of column keys in UI order.
+   */
+  getColumnKeys: (ctx: GridFocusManagerCallbackContext<Meta>) => FocusKey[];
+
+  /**
+   * Returns the index of the first visible row in the viewport.
+   * Used by PageUp navigation to determine the top boundary.
+   *
+   * Optional: if omitted, the first row is considered visible.
+   *
+   * @returns {number} The index of the first visible row.
+   */
+  getFirstVisibleRowIndex?: (
+    ctx: GridFocusManagerCallbackContext<Meta>
+  ) => number;
+
+  /**
+   * Returns the index of the last visible row in the viewport.
+   * Used by PageDown navigation to determine the bottom boundary.
+   *
+   * Optional: if omitted, the last row is considered visible.
+   *
+   * @returns {number} The index of the last visible row.
+   */
+  getLastVisibleRowIndex?: (
+    ctx: GridFocusManagerCallbackContext<Meta>
+  ) => number;
+
+  /**
+   * Returns the spanned region that covers the given cell position.
+   *
+   * Cells covered by a row or column span are not focusable on their own;
+   * navigation that lands on them focuses the origin (top-left) cell of the
+   * span instead, and moves out of the span from its far edge.
+   *
+   * Optional: if omitted, or if `null` is returned, the cell is a regular 1×1 cell.
+   *
+   * @returns {GridCellSpan | null} The span covering the cell, or null.
+   */
+  getCellSpan?: (
+    cell: GridFocusCell,
+    ctx: GridFocusManagerCallbackContext<Meta>
+  ) => GridCellSpan | null;
+
+  /**
+   * Returns the cell that should be focused when the area
+   * first becomes active.
+   *
+   * @returns {GridFocusCell | null} The initial focus cell, or null if none.
+   */
+  getInitialKeyOnAreaFocus?: (
+    ctx: GridFocusManagerCallbackContext<Meta>
+  ) => GridFocusCell | null;
+
+  /**
+   * What ArrowLeft/ArrowRight do at the first or last cell of a row.
+   *
+   * - `"none"` (default): Focus stops at the row boundaries.
+   * - `"wrap"`: Focus wraps to the other end of the same row.
+   * - `"flow"`: Focus continues on the previous/next row.
+   */
+  rowWrap?: GridWrapMode;
+
+  /**
+   * What ArrowUp/ArrowDown do at the first or last cell of a column.
+   *
+   * - `"none"` (default): Focus stops at the column boundaries.
+   * - `"wrap"`: Focus wraps to the other end of the same column.
+   * - `"flow"`: Focus continues on the previous/next column.
+   */
+  columnWrap?: GridWrapMode;
+
+  /**
+   * Returns the text direction of the grid.
+   *
+   * In `"rtl"`, ArrowLeft and ArrowRight swap roles: ArrowLeft moves to the next column
+   * and ArrowRight to the previous one.
+   *
+   * If omitted, defaults to `"ltr"`.
+   *
+   * @returns {FocusDirection} The text direction of the grid.
+   */
+  getDirection?: (ctx: GridFocusManagerCallbackContext<Meta>) => FocusDirection;
+
+  /**
+   * Called when this area becomes the active area of its FocusManager.
+   */
+  onEnter?: (ctx: GridFocusManagerCallbackContext<Meta>) => void;
+
+  /**
+   * Called when this area stops being the active area of its FocusManager.
+   */
+  onLeave?: (ctx: GridFocusManagerCallbackContext<Meta>) => void;
+
+  /**
+   * Called when the focused key of this area changes while it is
+   * (or as it becomes) the active area.
+   */
+  onKeyChange?: (
+    key: GridFocusCell | null,
+    prevKey: GridFocusCell | null,
+    ctx: GridFocusManagerCallbackContext<Meta>
+  ) => void;
+};
+
+/**
+ * A single cell in a grid, identified by its row and column keys.
+ */
+export type GridFocusCell = {
+  row: FocusKey;
+  col: FocusKey;
+};
+
+/**
+ * A region of the grid covered by a single spanned cell.
+ * `row` and `col` identify the origin (top-left) cell of the span.
+ */
+export type GridCellSpan = GridFocusCell & {
+  rowSpan: number;
+  colSpan: number;
+};
+
+export type GridWrapMode = "none" | "wrap" | "flow";
+
+/**
+ * Context passed into GridFocusManager callbacks.
+ * Provides access to the manager itself, its parent FocusManager,
+ * and the currently active entry metadata.
+ */
+export type GridFocusManagerCallbackContext<Meta> = {
+  /** The grid focus manager instance */
+  manager: GridFocusManager<Meta>;
+
+  /** The parent focus manager that owns this area */
+  parent: FocusManager<any>;
+
+  /** Metadata associated with the current focus area entry */
+  meta: Meta | null;
+};
+
+/**
+ * Configuration options for creating a TreeFocusManager instance.
+ */
+export type TreeFocusManagerProps<Meta> = {
+  /**
+   * Returns the ordered list of top-level node keys.
+   *
+   * @returns {FocusKey[]} An array of root keys in UI order.
+   */
+  getRootKeys: (ctx: TreeFocusManagerCallbackContext<Meta>) => FocusKey[];
+
+  /**
+   * Returns the ordered list of child keys of the given node.
+   * Leaf nodes return an empty array.
+   *
+   * @returns {FocusKey[]} An array of child keys in UI order.
+   */
+  getChildren: (
+    key: FocusKey,
+    ctx: TreeFocusManagerCallbackContext<Meta>
+  ) => FocusKey[];
+
+  /**
+   * Returns the parent key of the given node, or `null` for root nodes.
+   *
+   * @returns {FocusKey | null} The parent key, or null if none.
+   */
+  getParent: (
+    key: FocusKey,
+    ctx: TreeFocusManagerCallbackContext<Meta>
+  ) => FocusKey | null;
+
+  /**
+   * Returns whether the given node is currently expanded.
+   *
+   * Expansion state is owned by the application; the manager only reads it
+   * and emits expand/collapse requests through `onRequestExpand`/`onRequestCollapse`.
+   *
+   * @returns {boolean} True if the node's children are shown.
+   */
+  isExpanded: (
+    key: FocusKey,
+    ctx: TreeFocusManagerCallbackContext<Meta>
+  ) => boolean;
+
+  /**
+   * Called when keyboard navigation asks for a collapsed node to be expanded
+   * (ArrowRight on a collapsed parent, or `*` for each collapsed sibling).
+   */
+  onRequestExpand?: (
+    key: FocusKey,
+    ctx: TreeFocusManagerCallbackContext<Meta>
+  ) => void;
+
+  /**
+   * Called when keyboard navigation asks for an expanded node to be collapsed
+   * (ArrowLeft on an expanded parent).
+   */
+  onRequestCollapse?: (
+    key: FocusKey,
+    ctx: TreeFocusManagerCallbackContext<Meta>
+  ) => void;
+
+  /**
+   * Returns the index of the first visible node in the viewport,
+   * counted over the visible (expanded) nodes of the tree.
+   * Used by PageUp navigation to determine the top boundary.
+   *
+   * @returns {number} The index of the first visible node.
+   */
+  getFirstVisibleIndex?: (ctx: TreeFocusManagerCallbackContext<Meta>) => number;
+
+  /**
+   * Returns the index of the last visible node in the viewport,
+   * counted over the visible (expanded) nodes of the tree.
+   * Used by PageDown navigation to determine the bottom boundary.
+   *
+   * @returns {number} The index of the last visible node.
+   */
+  getLastVisibleIndex?: (ctx: TreeFocusManagerCallbackContext<Meta>) => number;
+
+  /**
+   * Returns the key that should be focused when the area
+   * first becomes active.
+   *
+   * @returns {FocusKey | null} The initial focus key, or null if none.
+   */
+  getInitialKeyOnAreaFocus?: (
+    ctx: TreeFocusManagerCallbackContext<Meta>
+  ) => FocusKey | null;
+
+  /**
+   * Returns the text direction of the tree.
+   *
+   * In `"rtl"`, ArrowLeft and ArrowRight swap roles: ArrowLeft expands a node or moves
+   * to its first child, and ArrowRight collapses it or moves to its parent.
+   *
+   * If omitted, defaults to `"ltr"`.
+   *
+   * @returns {FocusDirection} The text direction of the tree.
+   */
+  getDirection?: (ctx: TreeFocusManagerCallbackContext<Meta>) => FocusDirection;
+
+  /**
+   * Called when this area becomes the active area of its FocusManager.
+   */
+  onEnter?: (ctx: TreeFocusManagerCallbackContext<Meta>) => void;
+
+  /**
+   * Called when this area stops being the active area of its FocusManager.
+   */
+  onLeave?: (ctx: TreeFocusManagerCallbackContext<Meta>) => void;
+
+  /**
+   * Called when the focused key of this area changes while it is
+   * (or as it becomes) the active area.
+   */
+  onKeyChange?: (
+    key: FocusKey | null,
+    prevKey: FocusKey | null,
+    ctx: TreeFocusManagerCallbackContext<Meta>
+  ) => void;
+};
+
+/**
+ * Context passed into TreeFocusManager callbacks.
+ * Provides access to the manager itself, its parent FocusManager,
+ * and the currently active entry metadata.
+ */
+export type TreeFocusManagerCallbackContext<Meta> = {
+  /** The tree focus manager instance */
+  manager: TreeFocusManager<Meta>;
+
+  /** The parent focus manager that owns this area */
+  parent: FocusManager<any>;
+
+  /** Metadata associated with the current focus area entry */
+  meta: Meta | null;
+};
+
+/**
+ * The on-screen geometry of an item. A `DOMRect`, e.g. from
+ * `getBoundingClientRect()`, can be used as is.
+ */
+export type FocusRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * A physical direction of movement on screen.
+ */
+export type SpatialDirection = "up" | "down" | "left" | "right";
+
+/**
+ * Configuration options for creating a SpatialFocusManager instance.
+ */
+export type SpatialFocusManagerProps<Meta> = {
+  /**
+   * Returns the focusable keys of the area. Their order is only used to
+   * break ties between equally scored candidates.
+   */
+  getKeys: (ctx: SpatialFocusManagerCallbackContext<Meta>) => FocusKey[];
+
+  /**
+   * Returns the on-screen rectangle of an item, or `null` if it is not
+   * rendered. All rectangles of an area, and of the spatial areas it exits
+   * to, must share the same coordinate space, e.g. the viewport.
+   *
+   * @returns {FocusRect | null} The rectangle of the item.
+   */
+  getRect: (
+    key: FocusKey,
+    ctx: SpatialFocusManagerCallbackContext<Meta>
+  ) => FocusRect | null;
+
+  /**
+   * Optional function that returns whether an item is disabled.
+   * Disabled items are never chosen as targets.
+   */
+  isKeyDisabled?: (
+    key: FocusKey,
+    ctx: SpatialFocusManagerCallbackContext<Meta>
+  ) => boolean;
+
+  /**
+   * Optional weight of the cross-axis distance in the score of a candidate,
+   * see `SpatialFocusManager`. Higher values favour aligned items over
+   * nearer ones. Defaults to 2.
+   */
+  alignmentBias?: number;
+
+  /**
+   * Optional function returning the area of the parent FocusManager that
+   * focus moves to when there is no item in the given direction, or `null`
+   * to stay at the edge.
+   */
+  getExitArea?: (
+    direction: SpatialDirection,
+    ctx: SpatialFocusManagerCallbackContext<Meta>
+  ) => string | null;
+
+  /**
+   * Returns the key that should receive focus when the area
+   * first becomes active.
+   *
+   * @returns {FocusKey | null} The initial focus key, or null if none.
+   */
+  getInitialKeyOnAreaFocus?: (
+    ctx: SpatialFocusManagerCallbackContext<Meta>
+  ) => FocusKey | null;
+
+  /**
+   * Called when this area becomes the active area of its FocusManager.
+   */
+  onEnter?: (ctx: SpatialFocusManagerCallbackContext<Meta>) => void;
+
+  /**
+   * Called when this area stops being the active area of its FocusManager.
+   */
+  onLeave?: (ctx: SpatialFocusManagerCallbackContext<Meta>) => void;
+
+  /**
+   * Called when the focused key of this area changes while it is
+   * (or as it becomes) the active area.
+   */
+  onKeyChange?: (
+    key: FocusKey | null,
+    prevKey: FocusKey | null,
+    ctx: SpatialFocusManagerCallbackContext<Meta>
+  ) => void;
+};
+
+/**
+ * Context passed into SpatialFocusManager callbacks.
+ * Provides access to the manager itself, its parent FocusManager,
+ * and the currently active entry metadata.
+ */
+export type SpatialFocusManagerCallbackContext<Meta> = {
+  /** The spatial focus manager instance */
+  manager: SpatialFocusManager<Meta>;
+
+  /** The parent focus manager that owns this area */
+  parent: FocusManager<any>;
+
+  /** Metadata associated with the current focus area entry */
+  meta: Meta | null;
+};
+
+/**
+ * Configuration options for creating a RovingTabIndexAdapter instance.
+ *
+ * @template T A record mapping area names to their corresponding area focus manager.
+ */
+export type RovingTabIndexAdapterProps<
+  T extends Record<string, AreaFocusManager>
+> = {
+  /**
+   * The FocusManager whose state is mirrored into the DOM.
+   */
+  focusManager: FocusManager<T>;
+
+  /**
+   * Whether elements should be focused with `{ preventScroll: true }`,
+   * leaving scrolling to the application. Defaults to false.
+   */
+  preventScroll?: boolean;
+};
+
+/**
+ * Configuration options for creating an ActiveDescendantAdapter instance.
+ *
+ * @template T A record mapping area names to their corresponding area focus manager.
+ * @template K The identifier of the area bound to the container.
+ */
+export type ActiveDescendantAdapterProps<
+  T extends Record<string, AreaFocusManager>,
+  K extends keyof T
+> = {
+  /**
+   * The FocusManager whose state is mirrored into the DOM.
+   */
+  focusManager: FocusManager<T>;
+
+  /**
+   * The identifier of the area whose focused key is exposed
+   * through `aria-activedescendant`.
+   */
+  area: K;
+
+  /**
+   * The element that keeps DOM focus, e.g. a listbox or a combobox input.
+   */
+  container: HTMLElement;
+
+  /**
+   * Returns the DOM id of the element that represents the given key.
+   *
+   * @returns {string} The id written to `aria-activedescendant`.
+   */
+  getItemId: (key: KeyFromAreaFocusManager<T[K]>) => string;
+
+  /**
+   * Whether the active item should also get `aria-selected="true"`
+   * (and the previously active one `aria-selected="false"`),
+   * for widgets where selection follows focus. Defaults to false.
+   */
+  ariaSelected?: boolean;
+
+  /**
+   * Name of the attribute set on the active item for styling.
+   * Defaults to `"data-active"`.
+   */
+  activeAttribute?: string;
+};
+
+/**
+ * A readable store following the Svelte store contract: `subscribe` calls
+ * `run` with the current value right away and then on every change, and
+ * returns a function that ends the subscription.
+ *
+ * @template V The type of the stored value.
+ */
+export type FocusStore<V> = {
+  /**
+   * Returns the current value.
+   */
+  get: () => V;
+
+  /**
+   * Calls `run` with the current value and then whenever the value changes.
+   *
+   * @returns {() => void} A function that ends the subscription.
+   */
+  subscribe: (run: (value: V) => void) => () => void;
+};
+
+/**
+ * Configuration options for creating a FocusStoreAdapter instance.
+ *
+ * @template T A record mapping area names to their corresponding area focus manager.
+ */
+export type FocusStoreAdapterProps<T extends Record<string, AreaFocusManager>> =
+  {
+    /**
+     * The FocusManager whose state is exposed as stores.
+     */
+    focusManager: FocusManager<T>;
+  };
+
+/**
+ * The focus state recorded after each operation of a trace.
+ */
+export type FocusTraceState = {
+  /** The active area, or null if none */
+  area: string | null;
+
+  /** The focused key of the active area (the active area of a composite area) */
+  key: AreaFocusKey | null;
+
+  /**
+   * The number of keys of the innermost active area: the keys of a list or
+   * spatial area, the visible nodes of a tree or the rows of a grid.
+   * Null if no area is active.
+   */
+  keyCount: number | null;
+};
+
+/**
+ * One recorded operation of a `FocusTrace`.
+ */
+export type FocusTraceEntry = FocusTraceState & {
+  /** The name of the FocusManager method that was called */
+  operation: FocusOperation;
+
+  /**
+   * The arguments of the call after defaults were applied, without trailing
+   * undefined arguments.
+   * `registerArea` records only the area name, and `restoreSnapshot` only
+   * the snapshot.
+   */
+  args: unknown[];
+
+  /** The source of the focus change, or null if focus did not change */
+  source: FocusSource | null;
+
+  /** The time of the call, as returned by `now` */
+  timestamp: number;
+};
+
+/**
+ * A JSON-serializable record of FocusManager operations.
+ */
+export type FocusTrace = {
+  /** The focus state when recording started, restored before a replay */
+  snapshot: FocusSnapshot;
+
+  /** The recorded operations, oldest first */
+  entries: FocusTraceEntry[];
+};
+
+/**
+ * Configuration options for creating a FocusTraceRecorder instance.
+ *
+ * @template T A record mapping area names to their corresponding area focus manager.
+ */
+export type FocusTraceRecorderProps<
+  T extends Record<string, AreaFocusManager>
+> = {
+  /**
+   * The FocusManager whose operations are recorded.
+   */
+  focusManager: FocusManager<T>;
+
+  /**
+   * Returns the timestamp of an operation. Defaults to `Date.now`.
+   */
+  now?: () => number;
+
+  /**
+   * Converts meta passed to `focusArea` / `focusAreaKey`, and the meta of
+   * the starting snapshot, into a JSON-serializable value.
+   * Defaults to passing meta through unchanged.
+   */
+  serializeMeta?: (meta: unknown, area: string) => unknown;
+};
+
+/**
+ * Options for `replayFocusTrace`.
+ */
+export type FocusTraceReplayOptions = {
+  /**
+   * Converts meta serialized by `serializeMeta` back into meta.
+   * Defaults to passing meta through unchanged.
+   */
+  deserializeMeta?: (meta: unknown, area: string) => unknown;
+};
+
+/**
+ * A recorded operation whose replay produced a different focus state.
+ */
+export type FocusTraceMismatch = {
+  /** The index of the operation in the trace */
+  index: number;
+
+  /** The operation that was replayed */
+  operation: FocusOperation;
+
+  /** The recorded state */
+  expected: FocusTraceState;
+
+  /** The state produced by the replay */
+  actual: FocusTraceState;
+
+  /** The fields of the state that differ */
+  diff: (keyof FocusTraceState)[];
+
+  /** A readable description of the differences */
+  message: string;
+};
+
+/**
+ * The outcome of `replayFocusTrace`.
+ */
+export type FocusTraceReplayResult = {
+  /** Whether every operation produced the recorded state */
+  ok: boolean;
+
+  /** The operations whose replay produced a different state */
+  mismatches: FocusTraceMismatch[];
+};
+
+/**
+ * The range of visible indices of a list built by FocusManagerBuilder.
+ * It is read on every call, so tests can scroll by changing it.
+ */
+export type FocusTestVisibleWindow = {
+  /** The index of the first visible key */
+  first: number;
+
+  /** The index of the last visible key */
+  last: number;
+};
+
+/**
+ * Options for the list areas built by `FocusManagerBuilder.list`.
+ */
+export type FocusTestListOptions = {
+  /** The visible window, for PageUp/PageDown. Defaults to the whole list. */
+  visible?: FocusTestVisibleWindow;
+
+  /** The axis of the list. Defaults to `"vertical"`. */
+  orientation?: FocusListAxis;
+
+  /** The text direction of the list. Defaults to `"ltr"`. */
+  direction?: FocusDirection;
+
+  /** Whether arrow navigation wraps around. Defaults to false. */
+  wrapAround?: boolean;
+
+  /** The disabled keys, read on every call. */
+  disabled?: FocusKey[];
+
+  /** The key focused when the area is focused. Defaults to the first key. */
+  initialKey?: FocusKey | null;
+
+  /** The number of items per row, enabling a flow layout. */
+  columns?: number;
+};
+
+/**
+ * The expected history state of a FocusManager, for `expectHistory`.
+ * Fields that are left out are not checked.
+ */
+export type FocusHistoryExpectation = {
+  /** The index of the active entry */
+  index?: number;
+
+  /** The number of entries */
+  length?: number;
+
+  /** The areas of the entries, oldest first */
+  areas?: string[];
+};
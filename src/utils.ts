@@ -0,0 +1,256 @@
+import type {
+  AreaFocusKey,
+  FocusArrowKey,
+  FocusDirection,
+  FocusKey,
+  FocusListAxis,
+  FocusListOrientation,
+  FocusPathEntry,
+  FocusRect,
+  FocusWritingMode,
+  SpatialDirection,
+} from "./types";
+
+/**
+ * Clamps an index into the `[0, length - 1]` range.
+ *
+ * @param index The index to clamp.
+ * @param length The number of items in the collection.
+ * @returns {number} The clamped index.
+ */
+export function clampIndex(index: number, length: number): number {
+  return Math.max(0, Math.min(length - 1, index));
+}
+
+/**
+ * Wraps an index around the `[0, length - 1]` range, so that stepping past
+ * the end continues at the start and vice versa.
+ *
+ * @param index The index to wrap.
+ * @param length The number of items in the collection.
+ * @returns {number} The wrapped index.
+ */
+export function wrapIndex(index: number, length: number): number {
+  return (index + length) % length;
+}
+
+/**
+ * Computes the target index of a PageUp/PageDown movement over a collection
+ * whose visible range is `[firstVisible, lastVisible]`.
+ *
+ * Semantics:
+ * - PageUp: jump to the first visible item, or if already there, move one
+ *   visible page up so the old top becomes the new bottom.
+ * - PageDown: jump to the last visible item, or if already there, move one
+ *   visible page down so the old bottom becomes the new top.
+ *
+ * @param currentIndex The index of the currently focused item, or -1 if none.
+ * @param firstVisible The index of the first visible item.
+ * @param lastVisible The index of the last visible item.
+ * @param length The number of items in the collection.
+ * @param delta `-1` for PageUp, `1` for PageDown.
+ * @returns {number} The index that should receive focus.
+ */
+export function getPageTargetIndex(
+  currentIndex: number,
+  firstVisible: number,
+  lastVisible: number,
+  length: number,
+  delta: -1 | 1
+): number {
+  const visibleCount = Math.max(1, lastVisible - firstVisible + 1);
+
+  if (delta === -1) {
+    if (currentIndex > firstVisible) {
+      return firstVisible;
+    }
+
+    return Math.max(0, firstVisible - visibleCount + 1);
+  }
+
+  if (currentIndex < lastVisible) {
+    return lastVisible;
+  }
+
+  return Math.min(length - 1, lastVisible + visibleCount - 1);
+}
+
+/**
+ * Compares two area keys by value. Grid cells are equal when both their
+ * row and column keys are equal; all other keys are compared by identity.
+ *
+ * @returns {boolean} True if both keys identify the same item.
+ */
+export function isSameAreaKey(
+  a: AreaFocusKey | null,
+  b: AreaFocusKey | null
+): boolean {
+  if (a === b) return true;
+
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) {
+    return false;
+  }
+
+  return a.row === b.row && a.col === b.col;
+}
+
+/**
+ * Returns a copy of an area key that does not share a grid cell object
+ * with the original.
+ */
+export function copyAreaKey<K extends AreaFocusKey | null | undefined>(
+  key: K
+): K {
+  return (typeof key === "object" && key ? { ...key } : key) as K;
+}
+
+/**
+ * Compares two key lists, including their order.
+ *
+ * @returns {boolean} True if both lists contain the same keys in the same order.
+ */
+export function isSameKeys(a: FocusKey[], b: FocusKey[]) {
+  return a.length === b.length && a.every((key, i) => key === b[i]);
+}
+
+/**
+ * Compares two focus paths level by level, by area and key.
+ * Meta values are not compared.
+ *
+ * @returns {boolean} True if both paths point at the same focused items.
+ */
+export function isSameFocusPath(a: FocusPathEntry[], b: FocusPathEntry[]) {
+  return (
+    a.length === b.length &&
+    a.every(
+      (segment, i) =>
+        segment.area === b[i].area && isSameAreaKey(segment.key, b[i].key)
+    )
+  );
+}
+
+/**
+ * Resolves a list axis to a physical orientation. Logical axes follow the
+ * writing mode: the inline axis is horizontal in `"horizontal-tb"` and vertical
+ * in the vertical writing modes, and the block axis is the other one.
+ *
+ * @returns {FocusListOrientation} The physical orientation.
+ */
+export function resolveOrientation(
+  axis: FocusListAxis,
+  writingMode: FocusWritingMode
+): FocusListOrientation {
+  if (axis === "horizontal" || axis === "vertical") return axis;
+
+  const isInlineHorizontal = writingMode === "horizontal-tb";
+
+  return (axis === "inline") === isInlineHorizontal ? "horizontal" : "vertical";
+}
+
+/**
+ * Returns whether items along a physical orientation progress against the
+ * default physical direction (right to left, or bottom to top).
+ *
+ * - Horizontal: reversed for `"rtl"` text in `"horizontal-tb"`, and for the
+ *   right-to-left block axis of `"vertical-rl"`.
+ * - Vertical: reversed only for `"rtl"` text in the vertical writing modes.
+ *
+ * @returns {boolean} True if the next item is to the left / above.
+ */
+export function isOrientationReversed(
+  orientation: FocusListOrientation,
+  direction: FocusDirection,
+  writingMode: FocusWritingMode
+): boolean {
+  if (writingMode === "horizontal-tb") {
+    return orientation === "horizontal" && direction === "rtl";
+  }
+
+  if (orientation === "horizontal") {
+    return writingMode === "vertical-rl";
+  }
+
+  return direction === "rtl";
+}
+
+/**
+ * Resolves a physical arrow key to a movement delta along an orientation.
+ *
+ * @returns {-1 | 1 | null} The delta, or null if the arrow key is
+ * perpendicular to the orientation.
+ */
+export function getArrowDelta(
+  arrow: FocusArrowKey,
+  orientation: FocusListOrientation,
+  direction: FocusDirection = "ltr",
+  writingMode: FocusWritingMode = "horizontal-tb"
+): -1 | 1 | null {
+  const isVerticalArrow = arrow === "ArrowUp" || arrow === "ArrowDown";
+  if (isVerticalArrow !== (orientation === "vertical")) return null;
+
+  const delta = arrow === "ArrowUp" || arrow === "ArrowLeft" ? -1 : 1;
+
+  return isOrientationReversed(orientation, direction, writingMode)
+    ? (-delta as -1 | 1)
+    : delta;
+}
+
+/**
+ * Scores a candidate rectangle for a spatial move from `from` in the given
+ * direction. Lower scores are better:
+ *
+ *   score = distance + alignmentBias * crossDistance - overlap
+ *
+ * - `distance`: the gap between the facing edges along the direction of
+ *   movement, or 0 if the rectangles overlap along it.
+ * - `crossDistance`: the gap between the rectangles across the direction
+ *   of movement, or 0 if they are in line.
+ * - `overlap`: the length over which the rectangles are in line across the
+ *   direction of movement.
+ *
+ * @returns {number | null} The score, or null if the candidate does not lie
+ * in the given direction, i.e. its near edge is not past the center of `from`
+ * or its far edge is not past the far edge of `from`.
+ */
+export function getSpatialScore(
+  from: FocusRect,
+  to: FocusRect,
+  direction: SpatialDirection,
+  alignmentBias: number
+): number | null {
+  const isVertical = direction === "up" || direction === "down";
+  const sign = direction === "up" || direction === "left" ? -1 : 1;
+
+  // main axis spans, flipped so that movement is towards larger values
+  const [fromStart, fromEnd] = getSpan(from, isVertical, sign);
+  const [toStart, toEnd] = getSpan(to, isVertical, sign);
+
+  if (toStart <= (fromStart + fromEnd) / 2 || toEnd <= fromEnd) return null;
+
+  const [fromCrossStart, fromCrossEnd] = getSpan(from, !isVertical, 1);
+  const [toCrossStart, toCrossEnd] = getSpan(to, !isVertical, 1);
+
+  const distance = Math.max(0, toStart - fromEnd);
+  const crossDistance = Math.max(
+    0,
+    toCrossStart - fromCrossEnd,
+    fromCrossStart - toCrossEnd
+  );
+  const overlap = Math.max(
+    0,
+    Math.min(fromCrossEnd, toCrossEnd) - Math.max(fromCrossStart, toCrossStart)
+  );
+
+  return distance + alignmentBias * crossDistance - overlap;
+}
+
+function getSpan(
+  rect: FocusRect,
+  isVertical: boolean,
+  sign: -1 | 1
+): [number, number] {
+  const start = isVertical ? rect.y : rect.x;
+  const end = start + (isVertical ? rect.height : rect.width);
+
+  return sign === 1 ? [start, end] : [-end, -start];
+}
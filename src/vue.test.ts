@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { effectScope, watch } from "vue";
+import { FocusManager } from "./FocusManager";
+import { ListFocusManager } from "./ListFocusManager";
+import {
+  useAreaKey,
+  useFocusEntry,
+  useFocusHistory,
+  useIsFocused,
+} from "./vue";
+
+describe("Vue composables", () => {
+  let fm: FocusManager<{ list: ListFocusManager; toolbar: ListFocusManager }>;
+
+  beforeEach(() => {
+    fm = new FocusManager({
+      areas: {
+        list: new ListFocusManager({
+          getKeys: () => ["a", "b", "c"],
+          getInitialKeyOnAreaFocus: () => "a",
+        }),
+        toolbar: new ListFocusManager({
+          getKeys: () => ["bold", "italic"],
+          getInitialKeyOnAreaFocus: () => "bold",
+        }),
+      },
+    });
+  });
+
+  it("mirrors the focus state into shallow refs", () => {
+    const scope = effectScope();
+    const refs = scope.run(() => ({
+      entry: useFocusEntry(fm),
+      history: useFocusHistory(fm),
+      listKey: useAreaKey(fm, "list"),
+      bFocused: useIsFocused(fm, "list", "b"),
+    }))!;
+
+    fm.focusArea("list");
+    fm.focusOnArrowDown();
+    fm.focusArea("toolbar");
+
+    expect(refs.entry.value?.area).toBe("toolbar");
+    expect(refs.history.value).toEqual({ index: 1, length: 2 });
+    expect(refs.listKey.value).toBe("b");
+    expect(refs.bFocused.value).toBe(false);
+
+    scope.stop();
+  });
+
+  it("triggers watchers only when the value changes", () => {
+    const scope = effectScope();
+    const onChange = vi.fn();
+
+    scope.run(() => {
+      const entry = useFocusEntry(fm);
+      watch(entry, onChange, { flush: "sync" });
+    });
+
+    fm.focusArea("list");
+    fm.focusOnArrowDown();
+    fm.focusOnArrowDown();
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    scope.stop();
+  });
+
+  it("ends the subscriptions when the effect scope is disposed", () => {
+    const scope = effectScope();
+    const listKey = scope.run(() => useAreaKey(fm, "list"))!;
+
+    scope.stop();
+    fm.focusArea("list");
+
+    expect(listKey.value).toBeNull();
+  });
+});
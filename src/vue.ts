@@ -0,0 +1,110 @@
+import {
+  getCurrentScope,
+  onScopeDispose,
+  shallowRef,
+  type ShallowRef,
+} from "vue";
+import type { FocusManager } from "./FocusManager";
+import { FocusStoreAdapter } from "./FocusStoreAdapter";
+import type {
+  AreaFocusManager,
+  FocusAreaEntry,
+  FocusHistoryPosition,
+  FocusStore,
+  KeyFromAreaFocusManager,
+} from "./types";
+
+/**
+ * Vue composables for FocusManager, built on the stores of FocusStoreAdapter.
+ *
+ * Each composable returns a `shallowRef` that is updated only when the value
+ * of its store changes, and ends its subscription when the surrounding effect
+ * scope, e.g. the component, is disposed.
+ */
+
+const adapters = new WeakMap<FocusManager<any>, FocusStoreAdapter<any>>();
+
+/**
+ * Returns the FocusStoreAdapter shared by all composables of a FocusManager,
+ * so that components observing the same area share its store.
+ */
+function getAdapter<T extends Record<string, AreaFocusManager>>(
+  focusManager: FocusManager<T>
+): FocusStoreAdapter<T> {
+  let adapter = adapters.get(focusManager);
+
+  if (!adapter) {
+    adapter = new FocusStoreAdapter({ focusManager });
+    adapters.set(focusManager, adapter);
+  }
+
+  return adapter;
+}
+
+/**
+ * Mirrors a store into a `shallowRef`. Outside of an effect scope, the
+ * subscription is never ended.
+ *
+ * @param store The store to mirror, e.g. from a FocusStoreAdapter.
+ * @returns {Readonly<ShallowRef<V>>} A ref holding the current value of the store.
+ */
+export function useFocusStore<V>(
+  store: FocusStore<V>
+): Readonly<ShallowRef<V>> {
+  const ref = shallowRef(store.get());
+
+  const unsubscribe = store.subscribe((value) => {
+    ref.value = value;
+  });
+
+  if (getCurrentScope()) {
+    onScopeDispose(unsubscribe);
+  }
+
+  return ref;
+}
+
+/**
+ * Returns a ref of the active entry of a FocusManager, see `FocusStoreAdapter.entry`.
+ */
+export function useFocusEntry<T extends Record<string, AreaFocusManager>>(
+  focusManager: FocusManager<T>
+): Readonly<ShallowRef<FocusAreaEntry<T> | null>> {
+  return useFocusStore(getAdapter(focusManager).entry);
+}
+
+/**
+ * Returns a ref of the history position of a FocusManager, see `FocusStoreAdapter.history`.
+ */
+export function useFocusHistory<T extends Record<string, AreaFocusManager>>(
+  focusManager: FocusManager<T>
+): Readonly<ShallowRef<FocusHistoryPosition>> {
+  return useFocusStore(getAdapter(focusManager).history);
+}
+
+/**
+ * Returns a ref of the focused key of an area, see `FocusStoreAdapter.areaKey`.
+ */
+export function useAreaKey<
+  T extends Record<string, AreaFocusManager>,
+  K extends keyof T
+>(
+  focusManager: FocusManager<T>,
+  area: K
+): Readonly<ShallowRef<KeyFromAreaFocusManager<T[K]> | null>> {
+  return useFocusStore(getAdapter(focusManager).areaKey(area));
+}
+
+/**
+ * Returns a ref of whether `key` is focused in an area, see `FocusStoreAdapter.isFocused`.
+ */
+export function useIsFocused<
+  T extends Record<string, AreaFocusManager>,
+  K extends keyof T
+>(
+  focusManager: FocusManager<T>,
+  area: K,
+  key: KeyFromAreaFocusManager<T[K]>
+): Readonly<ShallowRef<boolean>> {
+  return useFocusStore(getAdapter(focusManager).isFocused(area, key));
+}
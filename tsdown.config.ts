@@ -1,5 +1,6 @@
 import { defineConfig } from "tsdown";
 
 export default defineConfig((options) => ({
+  entry: ["src/index.ts", "src/react.ts", "src/vue.ts", "src/testing.ts"],
   minify: !options.watch,
 }));